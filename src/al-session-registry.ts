@@ -0,0 +1,88 @@
+/**
+ * A registry of named sessions that can be held alongside the default session -- for instance, a customer-delegated login
+ * used by support staff while their own session remains active.
+ *
+ * @copyright 2019 Alert Logic, Inc.
+ */
+
+import { AlGlobalizer } from '@al/common';
+import { AlApiClient } from '@al/client';
+import { AlSession, AlSessionInstance, AlSessionOptions } from './al-session';
+
+export class AlSessionRegistryInstance
+{
+    /**
+     * The name under which the global `AlSession` instance is exposed.
+     */
+    public static defaultSessionName = "default";
+
+    protected sessions:{[name:string]:AlSessionInstance} = {};
+
+    /**
+     * Creates a new named session.
+     *
+     * Unless a client is provided, the session gets its own AlApiClient, so its auth token and default account ID never leak into requests
+     * made on behalf of other sessions.  Its storage, synchronization channel and encryption key are namespaced as `al_session_<name>`
+     * unless `options.namespace` says otherwise.
+     *
+     * Please note that the locator context can't be scoped per session, because AlApiClient always consults the global AlLocatorService.
+     * Services located through the endpoints service (as InsightAPI services usually are) follow the named session's acting account, but
+     * URLs that the locator calculates directly -- for other service stacks, or when endpoints can't be resolved -- follow the datacenter
+     * and residency of the default session.
+     */
+    public create( name:string, options:AlSessionOptions = {}, client:AlApiClient = null ):AlSessionInstance {
+        if ( typeof( name ) !== 'string' || ! /^[a-zA-Z0-9_\-]+$/.test( name ) ) {
+            throw new Error( `Usage error: '${name}' is not a valid session name; please use letters, numbers, dashes and underscores only.` );
+        }
+        if ( this.has( name ) ) {
+            throw new Error( `Usage error: a session named '${name}' already exists.` );
+        }
+        const sessionOptions = Object.assign( { namespace: `al_session_${name}` }, options );
+        const session = new AlSessionInstance( client || new AlApiClient(), sessionOptions );
+        this.sessions[name] = session;
+        return session;
+    }
+
+    /**
+     * Retrieves a named session, or null if none exists.  The default session is available as "default".
+     */
+    public get( name:string ):AlSessionInstance|null {
+        if ( name === AlSessionRegistryInstance.defaultSessionName ) {
+            return AlSession;
+        }
+        return this.sessions.hasOwnProperty( name ) ? this.sessions[name] : null;
+    }
+
+    public has( name:string ):boolean {
+        return name === AlSessionRegistryInstance.defaultSessionName || this.sessions.hasOwnProperty( name );
+    }
+
+    /**
+     * Lists the names of all registered sessions, including the default session.
+     */
+    public list():string[] {
+        return [ AlSessionRegistryInstance.defaultSessionName, ...Object.keys( this.sessions ) ];
+    }
+
+    /**
+     * Disposes of a named session, ending it (and clearing its persisted data) unless `endSession` is false.  The default session
+     * cannot be disposed.
+     *
+     * @returns true if a session was disposed, false if no session with the given name exists.
+     */
+    public dispose( name:string, endSession:boolean = true ):boolean {
+        if ( name === AlSessionRegistryInstance.defaultSessionName ) {
+            throw new Error( "Usage error: the default session cannot be disposed." );
+        }
+        if ( ! this.sessions.hasOwnProperty( name ) ) {
+            return false;
+        }
+        const session = this.sessions[name];
+        delete this.sessions[name];
+        session.dispose( endSession );
+        return true;
+    }
+}
+
+/*  tslint:disable:variable-name */
+export const AlSessionRegistry = AlGlobalizer.instantiate( "AlSessionRegistry", () => new AlSessionRegistryInstance() );
@@ -21,19 +21,51 @@ import {
     AlSessionEndedEvent,
     AlActingAccountChangedEvent,
     AlActingAccountResolvedEvent,
-    AlActiveDatacenterChangedEvent
+    AlActiveDatacenterChangedEvent,
+    AlSessionTokenRefreshedEvent,
+    AlSessionTokenRefreshFailedEvent,
+    AlSessionRehydrationFailedEvent,
+    AlSessionEncryptionUnavailableEvent,
+    AlImpersonationStartedEvent,
+    AlImpersonationEndedEvent,
+    AlActingAccountChangeCancelledEvent,
+    AlActingAccountChangeVetoedEvent,
+    AlActingAccountResolutionFailedEvent,
+    AlExperienceChangedEvent,
+    AlDeveloperOverridesChangedEvent
 } from './events';
+import { AlActingAccountChangeCancelledError, AlActingAccountChangeVetoedError, AlExperienceSelectionError } from './errors';
 import {
     AlChangeStamp, AIMSAuthentication, AIMSUser, AIMSAccount, AIMSSessionDescriptor,      /* core AIMS types */
     AlApiClient, AlDefaultClient,
     AIMSJsonSchematics,
-    AlClientBeforeRequestEvent,
-    ALClient
+    AlClientBeforeRequestEvent
 } from '@al/client';
-import { AIMSClient } from '@al/aims';
-import { AlEntitlementCollection, AlEntitlementRecord, SubscriptionsClient } from '@al/subscriptions';
+import { AIMSClient, AIMSClientInstance, AIMSRole } from '@al/aims';
+import { AlEntitlementCollection, AlEntitlementRecord, SubscriptionsClient, AlSubscriptionsClient } from '@al/subscriptions';
 import { AlNullSessionDescriptor } from './null-session';
-import { AlConsolidatedAccountMetadata, AlExperienceTree } from './types';
+import {
+    AlConsolidatedAccountMetadata, AlExperienceTree, AlSessionTokenRefresher, AlSessionIdleOptions, AlSessionStorage,
+    AlRecentActingAccount, AlActingAccountChangeHook, AlSessionRetryPolicy, AlSessionEndReason, AlResolutionFailureMode,
+    AlSessionResolutionOptions, AlSessionResolutionResult, AlSessionBoundedResult,
+    AlDeveloperOverrides
+} from './types';
+import { AlSessionIdleMonitor } from './utilities/al-session-idle-monitor';
+import { AlSessionSynchronizer } from './utilities/al-session-synchronizer';
+import { AlMemorySessionStorage } from './utilities/al-session-storage';
+import { AlSessionCipher, AlSessionEncryptionScope, AlEncryptedSessionEnvelope } from './utilities/al-session-cipher';
+import { AlSessionMigrations } from './utilities/al-session-migrations';
+import { AlSessionEnvironment } from './utilities/al-session-environment';
+import { AlActingAccountHistory } from './utilities/al-acting-account-history';
+import { AlManagedAccountHierarchy } from './utilities/al-managed-account-hierarchy';
+import { AlExperiencePreferences } from './utilities/al-experience-preferences';
+import { AlConduitClient } from './utilities/al-conduit-client';
+import { AlSessionExpression } from './utilities/al-session-expression';
+import { AlDeveloperOverrideStore } from './utilities/al-developer-overrides';
+import { AlResolutionDiff } from './utilities/al-resolution-diff';
+import { AlPermissionSet } from './utilities/al-permission-set';
+import { AlResolutionCache, AlCachedResolution } from './utilities/al-resolution-cache';
+import { AlSchema, AlSchemaValidationMode, AlSchemaValidator, AlSchemaViolation, AlSessionSchemas } from './utilities/al-session-schema';
 
 export interface AlSessionOptions {
     /**
@@ -45,6 +77,164 @@ export interface AlSessionOptions {
      * If account metadata is resolved, should the client use the consolidated/gestalt resolver endpoint?  Defaults to `false`.
      */
     useConsolidatedResolver?:boolean;
+
+    /**
+     * The strategy used to renew the session's AIMS token before it expires.  If none is provided, tokens are not proactively refreshed.
+     */
+    tokenRefresher?:AlSessionTokenRefresher;
+
+    /**
+     * How many seconds before the token's expiration a refresh should be attempted.  Defaults to 300 (5 minutes).
+     */
+    tokenRefreshLeadTime?:number;
+
+    /**
+     * How many seconds to wait before retrying a failed token refresh, provided the current token hasn't expired yet.  Defaults to 60.
+     */
+    tokenRefreshRetryInterval?:number;
+
+    /**
+     * If provided, user activity will be tracked and the session will be ended after the given period of inactivity.  See AlSessionIdleOptions.
+     */
+    idleMonitoring?:AlSessionIdleOptions;
+
+    /**
+     * Controls whether session start, session end, token refresh and acting account changes are synchronized with other tabs.  Defaults to `true`;
+     * set to `false` to opt this tab out.
+     */
+    synchronizeTabs?:boolean;
+
+    /**
+     * The backend used to persist session data.  Defaults to `AlCabinet.persistent("al_session")`, or to in-memory storage in headless
+     * environments; see `utilities/al-session-storage` for in-memory, sessionStorage, localStorage and file system alternatives.  Replacing
+     * the backend of an active session moves the session to the new backend.
+     */
+    storage?:AlSessionStorage;
+
+    /**
+     * If set, the persisted session is encrypted (AES-GCM) with a key scoped to this tab ("tab") or shared across the origin ("origin"), and
+     * is integrity-checked on rehydration.  Once enabled, plaintext sessions found in storage are discarded rather than reinstated, while sessions
+     * encrypted by other tabs are left alone.  If WebCrypto
+     * or IndexedDB (where keys are kept) is unavailable, the session is kept in memory only and an AlSessionEncryptionUnavailableEvent is
+     * emitted.  Defaults to `null` (unencrypted).
+     */
+    encryptPersistence?:AlSessionEncryptionScope;
+
+    /**
+     * The namespace used for the default storage backend, cross-tab synchronization channel, and encryption key.  Defaults to "al_session".
+     * This is only honored at construction time; see AlSessionRegistry for creating sessions that live alongside the default one.
+     */
+    namespace?:string;
+
+    /**
+     * The maximum number of recently used acting accounts remembered for each user, not counting pinned accounts.  Defaults to 10.
+     */
+    recentActingAccountsLimit?:number;
+
+    /**
+     * The backend used to remember each user's recently used acting accounts.  This is kept separately from the session itself so that it
+     * survives logout.  Defaults to `AlCabinet.persistent("<namespace>_history")`, or to in-memory storage in headless environments.
+     */
+    recentActingAccountsStorage?:AlSessionStorage;
+
+    /**
+     * How failed AIMS and subscriptions requests are retried while resolving the acting account.  Defaults to 3 attempts, waiting 1 second
+     * before the first retry and doubling the delay thereafter.  Client errors (other than 429) are not retried.
+     */
+    resolutionRetryPolicy?:AlSessionRetryPolicy;
+
+    /**
+     * Determines what happens when the acting account can't be resolved, even after retrying.  With "degrade" (the default), the requested
+     * account stays in effect with empty entitlements, and the resolved event carries the error.  With "rollback", the previously resolved acting
+     * account is restored and `setActingAccount` rejects; if there is no previous account, the session is degraded instead.  Either way, an
+     * AlActingAccountResolutionFailedEvent is emitted and anything awaiting `resolved()` is released.
+     */
+    resolutionFailureMode?:AlResolutionFailureMode;
+
+    /**
+     * How many seconds the managed account hierarchy is cached for.  The cache is also discarded whenever the acting account changes or the
+     * session ends.  Defaults to 300.
+     */
+    managedAccountsCacheTTL?:number;
+
+    /**
+     * How many levels of managed accounts are loaded into the managed account hierarchy; use `Infinity` for all of them.  Each level beyond
+     * the first costs one request per account in the level above, so this defaults to 1.
+     */
+    managedAccountsDepth?:number;
+
+    /**
+     * How many seconds the API client keeps service endpoints primed from consolidated account metadata before it looks them up again.
+     * Defaults to 900, the lifetime the client gives endpoints it looks up itself.
+     */
+    endpointsCacheTTL?:number;
+
+    /**
+     * The backend used to remember the experiences each user has selected for each account.  Like the recent acting accounts, this survives
+     * logout.  Defaults to `AlCabinet.persistent("<namespace>_experiences")`, or to in-memory storage in headless environments.
+     */
+    experiencePreferencesStorage?:AlSessionStorage;
+
+    /**
+     * If provided, experience selections are also saved as conduit global settings, so that they follow the user across applications; saved
+     * selections are retrieved from conduit whenever an acting account is resolved.  Defaults to `null`.
+     */
+    experiencePreferencesConduit?:AlConduitClient;
+
+    /**
+     * The backend used to keep developer overrides (see `setDeveloperOverrides`) in effect across page loads.  Defaults to
+     * `AlCabinet.persistent("<namespace>_overrides")`, or to in-memory storage in headless environments.
+     */
+    developerOverridesStorage?:AlSessionStorage;
+
+    /**
+     * Whether the `al_overrides` query string parameter (see AlDeveloperOverrideStore) is honored in the production environment.  Defaults
+     * to false, so that a crafted link can't change what a production user is entitled to; the parameter is always honored elsewhere.
+     */
+    developerOverridesFromUrl?:boolean;
+
+    /**
+     * Controls whether acting account resolution also retrieves the user's AIMS roles and effective permissions for the acting account (see
+     * `hasPermission`).  This costs two additional requests per resolution, unless the consolidated resolver provides them.  Defaults to `false`.
+     */
+    resolvePermissions?:boolean;
+
+    /**
+     * If greater than zero, acting account resolutions are cached for this many seconds.  Switching to an account with a cached resolution
+     * resolves immediately from the cache; the account is then revalidated in the background, and a follow-up AlActingAccountResolvedEvent is
+     * emitted if anything changed.  Defaults to 0 (disabled).
+     */
+    resolutionCacheTTL?:number;
+
+    /**
+     * The backend used to cache resolutions.  Defaults to in-memory storage; provide a persistent backend (e.g., `AlCabinet.persistent(...)`)
+     * so that a page reload doesn't block on account metadata.  A user's cached resolutions are discarded when their session ends.
+     */
+    resolutionCacheStorage?:AlSessionStorage;
+
+    /**
+     * How many seconds a resolution warmed by `prefetchAccount` remains usable.  Switching to a prefetched account within this window
+     * completes without any further requests.  Defaults to 60.
+     */
+    prefetchTTL?:number;
+
+    /**
+     * If greater than zero, this many of the user's recent acting accounts (see `getRecentActingAccounts`) are prefetched after each acting
+     * account change.  Defaults to 0 (disabled).
+     */
+    prefetchRecentAccounts?:number;
+
+    /**
+     * How many seconds the pointer must rest on an element registered with `prefetchOnHover` before its account is prefetched.  Defaults to 0.2.
+     */
+    prefetchHoverDelay?:number;
+
+    /**
+     * How session descriptors, users, accounts and consolidated account metadata that fail schema validation are treated: "strict" rejects
+     * any violation, "lenient" rejects only violations affecting data the session can't function without, and "warn" rejects nothing.  In
+     * every mode, violations that don't cause rejection are logged.  Defaults to "lenient".
+     */
+    validationMode?:AlSchemaValidationMode;
 }
 
 /**
@@ -62,6 +252,9 @@ export class AlSessionInstance
      */
     protected sessionIsActive                     =   false;
     protected client:AlApiClient                  =   null;
+    protected aimsClient:AIMSClientInstance       =   AIMSClient;
+    protected subscriptionsClient:AlSubscriptionsClient = SubscriptionsClient;
+    protected namespace                           =   "al_session";
     protected sessionData: AIMSSessionDescriptor  =   JSON.parse(JSON.stringify(AlNullSessionDescriptor));
 
     /**
@@ -74,14 +267,97 @@ export class AlSessionInstance
                                                                                         new AlExperienceTree() );
     protected managedAccounts:AIMSAccount[]       =   [];
     protected resolutionGuard                     =   new AlBehaviorPromise<boolean>();                                               //  This functions as a mutex so that access to resolvedAccount is only available at appropriate times
-    protected storage                             =   AlCabinet.persistent( "al_session" );
+    protected storage:AlSessionStorage            =   null;
+    protected refreshTimer:AlStopwatch            =   null;
+    protected idleMonitor:AlSessionIdleMonitor    =   null;
+    protected synchronizer:AlSessionSynchronizer  =   null;
+    protected cipher:AlSessionCipher              =   null;
+    protected persistenceQueue:Promise<void>      =   Promise.resolve();
+    protected persistenceGeneration               =   0;
+    protected rehydration:Promise<void>           =   Promise.resolve();                                                         //  Settles once any persisted session found at construction has been reinstated or discarded
+    protected accountHistory:AlActingAccountHistory = null;
+    protected experiencePreferences:AlExperiencePreferences = null;
+    protected developerOverrides:AlDeveloperOverrideStore = null;
+    protected resolutionBaseline:AlActingAccountResolvedEvent = null;                                                            //  The most recent resolution, before preferences and overrides were applied
+    protected resolvedDatacenter:string           =   null;                                                                          //  The datacenter in effect when the acting account was last resolved successfully
+    protected lastSuccessfulResolution:AlActingAccountResolvedEvent = null;                                                      //  The resolution in effect before a degraded one, which later resolutions are described relative to
+    protected resolutionCache                     =   new AlResolutionCache( new AlMemorySessionStorage() );
+    protected prefetchedResolutions               =   new AlResolutionCache( new AlMemorySessionStorage() );
+    protected resolutionRequests:{[key:string]:Promise<any>} = {};                                                               //  In-flight resolution requests, shared by prefetches and acting account changes
+    protected prefetchedMetadata:{[accountId:string]:AlConsolidatedAccountMetadata} = {};                                        //  The consolidated metadata behind prefetched resolutions, used to prime the session on a switch
+    protected managedAccountHierarchy:Promise<AlManagedAccountHierarchy> = null;
+    protected managedAccountHierarchyExpiration   =   0;
+    protected identityStack:AIMSSessionDescriptor[] = [];                                                                        //  Identities suspended by impersonate(), most recent last
+    protected actingAccountChangeHooks:AlActingAccountChangeHook[] = [];
+    protected actingAccountRequestId              =   0;                                                                          //  Identifies the latest requested acting account change
+    protected actingAccountChangeId               =   0;                                                                          //  Identifies the latest committed acting account change
     protected options:AlSessionOptions = {
         resolveAccountMetadata: true,
-        useConsolidatedResolver: false
+        useConsolidatedResolver: false,
+        tokenRefresher: null,
+        tokenRefreshLeadTime: 300,
+        tokenRefreshRetryInterval: 60,
+        idleMonitoring: null,
+        synchronizeTabs: true,
+        storage: null,
+        encryptPersistence: null,
+        recentActingAccountsLimit: 10,
+        recentActingAccountsStorage: null,
+        resolutionRetryPolicy: { attempts: 3, delay: 1, backoff: 2, maxDelay: 30 },
+        resolutionFailureMode: "degrade",
+        managedAccountsCacheTTL: 300,
+        managedAccountsDepth: 1,
+        endpointsCacheTTL: 900,
+        experiencePreferencesStorage: null,
+        experiencePreferencesConduit: null,
+        developerOverridesStorage: null,
+        developerOverridesFromUrl: false,
+        resolvePermissions: false,
+        resolutionCacheTTL: 0,
+        resolutionCacheStorage: null,
+        prefetchTTL: 60,
+        prefetchRecentAccounts: 0,
+        prefetchHoverDelay: 0.2,
+        validationMode: "lenient"
     };
 
-    constructor( client:AlApiClient = null ) {
+    constructor( client:AlApiClient = null, options:AlSessionOptions = {} ) {
       this.client = client || AlDefaultClient;
+      if ( ! this.usesDefaultClient() ) {
+        //  The AIMSClient and SubscriptionsClient singletons are bound to the default API client, so requests they issued would carry the wrong session's token
+        this.aimsClient = new AIMSClientInstance( this.client );
+        this.subscriptionsClient = new AlSubscriptionsClient( this.client );
+      }
+      this.namespace = options.namespace || this.namespace;
+      this.storage = AlSessionEnvironment.isHeadless() ? new AlMemorySessionStorage() : AlCabinet.persistent( this.namespace );
+      this.accountHistory = new AlActingAccountHistory( AlSessionEnvironment.isHeadless() ? new AlMemorySessionStorage() : AlCabinet.persistent( `${this.namespace}_history` ),
+                                                        this.options.recentActingAccountsLimit );
+      this.experiencePreferences = new AlExperiencePreferences( AlSessionEnvironment.isHeadless()
+                                                                  ? new AlMemorySessionStorage()
+                                                                  : AlCabinet.persistent( `${this.namespace}_experiences` ) );
+      this.developerOverrides = new AlDeveloperOverrideStore( AlSessionEnvironment.isHeadless()
+                                                                ? new AlMemorySessionStorage()
+                                                                : AlCabinet.persistent( `${this.namespace}_overrides` ) );
+      this.synchronizer = new AlSessionSynchronizer( this, this.namespace );
+      this.setOptions( options );
+      if ( ! AlSessionEnvironment.isHeadless() && window.location ) {
+        const requested = AlDeveloperOverrideStore.fromQueryString( window.location.search );
+        if ( requested !== undefined ) {
+          if ( this.options.developerOverridesFromUrl || AlLocatorService.getCurrentEnvironment() !== "production" ) {
+            this.developerOverrides.set( requested );
+          } else {
+            console.warn( `Notice: ignoring the ${AlDeveloperOverrideStore.queryParameter} query string parameter in production (see developerOverridesFromUrl)` );
+          }
+        }
+      }
+      //  Overrides carried over from storage or the URL are announced once whatever application has imported us has had a chance to listen
+      const announceOverrides = () => {
+        const overrides = this.developerOverrides.get();
+        if ( overrides !== null ) {
+          this.notifyStream.trigger( new AlDeveloperOverridesChangedEvent( true, overrides, this ) );
+        }
+      };
+      setTimeout( announceOverrides, 0 );
       this.notifyStream.siphon( this.client.events );
       this.notifyStream.attach( AlClientBeforeRequestEvent, ( event:AlClientBeforeRequestEvent ) => {
           if ( this.sessionIsActive ) {
@@ -93,54 +369,107 @@ export class AlSessionInstance
        * Attempt to recreate a persisted session.  Note that the timeout below (really just an execution deferral, given the 0ms) prevents any
        * API requests from being fired before whatever application has imported us has had a chance to bootstrap.
        */
-      const persistedSession = this.storage.get("session") as AIMSSessionDescriptor;
-      if ( persistedSession && persistedSession.hasOwnProperty( "authentication" ) && persistedSession.authentication.token_expiration >= this.getCurrentTimestamp() ) {
-        setTimeout( () => {
-                        try {
-                            this.setAuthentication(persistedSession);
-                        } catch( e ) {
-                            this.deactivateSession();
-                            console.warn(`Failed to reinstate session from localStorage: ${e.message}`, e );
-                        }
-                    },
-                    0 );
+      const persisted = this.storage.get("session");
+      if ( AlSessionCipher.isEnvelope( persisted ) ) {
+        this.rehydration = new Promise<void>( resolve => setTimeout( () => this.rehydrateEncryptedSession( persisted ).then( resolve, resolve ), 0 ) );
+      } else if ( persisted && ! this.persistedSessionExpired( persisted ) ) {
+        this.rehydration = new Promise<void>( resolve => setTimeout( () => this.rehydrateSession( persisted ).then( resolve, resolve ), 0 ) );
       } else {
-        this.storage.destroy();
+        this.clearPersistedSession();
       }
 
-      /* istanbul ignore next */
-      AlGlobalizer.expose( 'al.session', {
-          state: () => {
-              return this.sessionData;
-          },
-          setActingAccount: ( accountId:string ) => {
-              if ( ! this.isActive() ) {
-                  console.warn("The acting account cannot be changed while in an unauthenticated state." );
-                  return;
-              }
-              this.setActingAccount( accountId )
-                    .then(  result => {
-                                console.log("OK");
-                            },
-                            error => {
-                                console.warn("Failed to set the acting account", error );
-                            } );
-          }
-      } );
+      if ( this.usesDefaultClient() ) {
+        this.exposeConsoleInterface();
+      }
+
+      if ( this.options.synchronizeTabs ) {
+        this.synchronizer.start();
+      }
     }
 
     public reset( flushClientCache:boolean = false ) {
       if ( this.isActive() ) {
         this.deactivateSession();
       }
-      AlLocatorService.reset();
+      if ( this.usesDefaultClient() ) {
+        AlLocatorService.reset();
+      }
       if ( flushClientCache ) {
-        ALClient.reset();
+        this.client.reset();
+      }
+    }
+
+    /**
+     * Stops this session's timers, idle tracking and cross-tab synchronization.  If `endSession` is true and the session is active,
+     * it is deactivated (and its persisted data cleared) first.
+     */
+    public dispose( endSession:boolean = true ) {
+      if ( endSession && this.isActive() ) {
+        this.deactivateSession();
       }
+      this.cancelTokenRefresh();
+      this.stopIdleMonitor();
+      this.synchronizer.stop();
+    }
+
+    /**
+     * Retrieves the API client this session authenticates and injects its token into.
+     */
+    public getClient():AlApiClient {
+      return this.client;
+    }
+
+    /**
+     * Retrieves the namespace this session's storage, synchronization channel and encryption key are scoped to.
+     */
+    public getNamespace():string {
+      return this.namespace;
     }
 
     public setOptions( options:AlSessionOptions ) {
       this.options = Object.assign( this.options, options );
+      if ( options.storage && options.storage !== this.storage ) {
+        if ( this.isActive() ) {
+          //  Don't leave the token behind in a backend that is no longer used
+          this.clearPersistedSession();
+          this.storage = options.storage;
+          this.persistSession();
+        } else {
+          this.storage = options.storage;
+        }
+      }
+      if ( options.recentActingAccountsStorage ) {
+        this.accountHistory = new AlActingAccountHistory( options.recentActingAccountsStorage, this.options.recentActingAccountsLimit );
+      } else if ( options.hasOwnProperty( "recentActingAccountsLimit" ) ) {
+        this.accountHistory.limit = this.options.recentActingAccountsLimit;
+      }
+      if ( options.experiencePreferencesStorage ) {
+        this.experiencePreferences = new AlExperiencePreferences( options.experiencePreferencesStorage );
+      }
+      if ( options.resolutionCacheStorage ) {
+        this.resolutionCache = new AlResolutionCache( options.resolutionCacheStorage );
+      }
+      if ( options.developerOverridesStorage ) {
+        this.developerOverrides = new AlDeveloperOverrideStore( options.developerOverridesStorage );
+      }
+      if ( options.hasOwnProperty( "encryptPersistence" ) ) {
+        this.setPersistenceEncryption( this.options.encryptPersistence );
+      }
+      if ( options.hasOwnProperty( "idleMonitoring" ) ) {
+        this.stopIdleMonitor();
+        this.idleMonitor = this.options.idleMonitoring ? new AlSessionIdleMonitor( this, this.options.idleMonitoring ) : null;
+      }
+      if ( options.hasOwnProperty( "synchronizeTabs" ) ) {
+        if ( this.options.synchronizeTabs ) {
+          this.synchronizer.start();
+        } else {
+          this.synchronizer.stop();
+        }
+      }
+      if ( this.isActive() ) {
+        this.scheduleTokenRefresh();
+        this.startIdleMonitor();
+      }
     }
 
     public async authenticate( username:string, passphrase:string, options:{actingAccount?:string|AIMSAccount,locationId?:string} = {} ):Promise<boolean> {
@@ -166,15 +495,7 @@ export class AlSessionInstance
     }
 
     public async authenticateWithAccessToken( accessToken:string, options:{actingAccount?:string|AIMSAccount,locationId?:string} = {} ):Promise<boolean> {
-      return AIMSClient.getTokenInfo( accessToken ).then( tokenInfo => {
-        let session:AIMSSessionDescriptor = {
-          authentication: {
-            account: tokenInfo.account,
-            user: tokenInfo.user,
-            token: accessToken,
-            token_expiration: tokenInfo.token_expiration
-          }
-        };
+      return this.describeAccessToken( accessToken ).then( session => {
         this.setAuthentication( session, options );
         return true;
       } );
@@ -208,14 +529,22 @@ export class AlSessionInstance
       }
       this.activateSession();
       let result:AlActingAccountResolvedEvent;
-      if ( options.actingAccount ) {
-          result = await this.setActingAccount( options.actingAccount );
-      } else if ( proposal.acting ) {
-          result = await this.setActingAccount( proposal.acting );
-      } else {
-          result = await this.setActingAccount( proposal.authentication.account );
+      try {
+        if ( options.actingAccount ) {
+            result = await this.changeActingAccount( options.actingAccount, false );
+        } else if ( proposal.acting ) {
+            result = await this.changeActingAccount( proposal.acting, false );
+        } else {
+            result = await this.changeActingAccount( proposal.authentication.account, false );
+        }
+      } catch( e ) {
+        if ( ! ( e instanceof AlActingAccountChangeCancelledError ) || ! this.isActive() ) {
+          throw e;
+        }
+        //  The initial acting account was superseded by a later change, but authentication itself succeeded
+        result = await this.resolutionGuard.then( () => this.resolvedAccount );
       }
-      this.storage.set("session", this.sessionData );
+      this.persistSession();
       return result;
     }
 
@@ -225,55 +554,30 @@ export class AlSessionInstance
      * Successful completion of this action triggers an AlActingAccountChangedEvent so that non-causal elements of an application can respond to
      * the change of effective account and entitlements.
      *
+     * Changes are latest-wins: if another change is requested (or the session ends) before this one has been resolved, its results are discarded,
+     * an AlActingAccountChangeCancelledEvent is emitted, and the returned promise rejects with an AlActingAccountChangeCancelledError.
+     *
+     * Before a different account is committed, any hooks added with `addActingAccountChangeHook` are run; if one of them vetoes the change, an
+     * AlActingAccountChangeVetoedEvent is emitted and the returned promise rejects with an AlActingAccountChangeVetoedError.
+     *
      * @param {AIMSAccount} The AIMSAccount object representating the account to focus on.
      *
      * @returns A promise that resolves
      */
     public async setActingAccount( account: string|AIMSAccount ):Promise<AlActingAccountResolvedEvent> {
+      return this.changeActingAccount( account, true );
+    }
 
-      if ( ! account ) {
-        throw new Error("Usage error: setActingAccount requires an account ID or account descriptor." );
-      }
-      if ( typeof( account ) === 'string' ) {
-        const accountDetails = await AIMSClient.getAccountDetails( account );
-        return await this.setActingAccount( accountDetails );
-      }
-
-      const previousAccount               = this.sessionData.acting;
-      const actingAccountChanged          = ! this.sessionData.acting || this.sessionData.acting.id !== account.id;
-
-      this.sessionData.acting             = account;
-
-      const targetLocationId              = account.accessible_locations.indexOf( this.sessionData.boundLocationId ) !== -1
-                                              ? this.sessionData.boundLocationId
-                                              : account.default_location;
-      this.setActiveDatacenter( targetLocationId );
-
-      ALClient.defaultAccountId           = account.id;
-
-      if ( ! this.options.resolveAccountMetadata ) {
-        //  If metadata resolution is disabled, still trigger changed/resolved events with basic data
-          this.resolvedAccount = new AlActingAccountResolvedEvent( account, new AlEntitlementCollection(), new AlEntitlementCollection(), new AlExperienceTree() );
-        this.notifyStream.trigger( new AlActingAccountChangedEvent( previousAccount, account, this ) );
-        this.resolutionGuard.resolve(true);
-        this.notifyStream.trigger( this.resolvedAccount );
-        return Promise.resolve( this.resolvedAccount );
-      }
+    /**
+     * Adds a hook that runs before `setActingAccount` commits a change to a different account, and which may defer or veto it.  Hooks run in
+     * the order they were added.  Changes made in the course of authentication are not subject to hooks.
+     */
+    public addActingAccountChangeHook( hook:AlActingAccountChangeHook ) {
+      this.actingAccountChangeHooks.push( hook );
+    }
 
-      if ( actingAccountChanged || ! this.resolutionGuard.isFulfilled() ) {
-        this.resolutionGuard.rescind();
-        AlLocatorService.setContext( {
-            insightLocationId: this.sessionData.boundLocationId,
-            accessible: account.accessible_locations
-        } );
-        this.notifyStream.trigger( new AlActingAccountChangedEvent( previousAccount, this.sessionData.acting, this ) );
-        this.storage.set("session", this.sessionData );
-        return await this.options.useConsolidatedResolver
-          ? this.resolveActingAccountConsolidated( account )
-          : this.resolveActingAccount( account );
-      } else {
-        return Promise.resolve( this.resolvedAccount );
-      }
+    public removeActingAccountChangeHook( hook:AlActingAccountChangeHook ) {
+      this.actingAccountChangeHooks = this.actingAccountChangeHooks.filter( candidate => candidate !== hook );
     }
 
     /**
@@ -282,8 +586,10 @@ export class AlSessionInstance
     public setActiveDatacenter( insightLocationId:string ) {
       if ( ! this.sessionData.boundLocationId || insightLocationId !== this.sessionData.boundLocationId ) {
         this.sessionData.boundLocationId = insightLocationId;
-        AlLocatorService.setContext( { insightLocationId } );
-        this.storage.set( "session", this.sessionData );
+        if ( this.usesDefaultClient() ) {
+          AlLocatorService.setContext( { insightLocationId } );
+        }
+        this.persistSession();
         if ( AlInsightLocations.hasOwnProperty( insightLocationId ) ) {
             const metadata = AlInsightLocations[insightLocationId];
             this.notifyStream.trigger( new AlActiveDatacenterChangedEvent( insightLocationId, metadata.residency, metadata ) );
@@ -318,7 +624,167 @@ export class AlSessionInstance
     setTokenInfo(token: string, tokenExpiration: number) {
       this.sessionData.authentication.token = token;
       this.sessionData.authentication.token_expiration = tokenExpiration;
-      this.storage.set("session", this.sessionData );
+      this.persistSession();
+      if ( this.isActive() ) {
+        this.scheduleTokenRefresh();
+      }
+    }
+
+    /**
+     * Renews the session's AIMS token using the configured `tokenRefresher`.
+     *
+     * Resolves `true` and emits an AlSessionTokenRefreshedEvent if a new token was applied.  If the refresh fails, an AlSessionTokenRefreshFailedEvent
+     * is emitted, another attempt is scheduled (assuming the current token is still valid), and the promise resolves `false`.
+     */
+    public async refreshToken():Promise<boolean> {
+      const refresher = this.options.tokenRefresher;
+      if ( ! this.isActive() || ! refresher ) {
+        return false;
+      }
+      const previousToken = this.getToken();
+      try {
+        const tokenInfo = await refresher.refresh( this.getAuthentication() );
+        if ( ! this.isActive() || this.getToken() !== previousToken ) {
+          //  The session ended or was replaced while the refresh was in flight; discard the result
+          return false;
+        }
+        if ( ! tokenInfo || typeof( tokenInfo.token ) !== 'string' || typeof( tokenInfo.token_expiration ) !== 'number' ) {
+          throw new AlResponseValidationError( "Token refresher did not return a valid token and expiration" );
+        }
+        if ( tokenInfo.token_expiration <= this.getCurrentTimestamp() ) {
+          throw new AlResponseValidationError( "Token refresher returned a token whose expiration is in the past" );
+        }
+        this.setTokenInfo( tokenInfo.token, tokenInfo.token_expiration );
+        this.notifyStream.trigger( new AlSessionTokenRefreshedEvent( tokenInfo.token, tokenInfo.token_expiration, this ) );
+        return true;
+      } catch( e ) {
+        console.warn( "Failed to refresh session token", e );
+        this.notifyStream.trigger( new AlSessionTokenRefreshFailedEvent( e, this ) );
+        if ( this.isActive() && this.getTokenExpiry() > this.getCurrentTimestamp() ) {
+          this.scheduleTokenRefresh( this.options.tokenRefreshRetryInterval );
+        }
+        return false;
+      }
+    }
+
+    /**
+     * Extends the session in response to user intent (e.g., "Stay signed in" in an expiration warning).  This resets the idle clock and,
+     * if the token is within its refresh window, renews it immediately.
+     *
+     * @returns A promise that resolves `true` if the session remains active.
+     */
+    public async extendSession():Promise<boolean> {
+      if ( ! this.isActive() ) {
+        return false;
+      }
+      if ( this.idleMonitor ) {
+        this.idleMonitor.recordActivity();
+      }
+      if ( this.options.tokenRefresher && this.getTokenExpiry() - this.getCurrentTimestamp() <= this.options.tokenRefreshLeadTime ) {
+        await this.refreshToken();
+      }
+      return this.isActive();
+    }
+
+    /**
+     * Resets the idle clock in response to user activity observed elsewhere (e.g., in another tab).  `timestamp` is in milliseconds; activity
+     * older than the last recorded activity is ignored.
+     */
+    public recordActivity( timestamp:number = Date.now() ) {
+      if ( this.idleMonitor ) {
+        this.idleMonitor.recordActivity( timestamp, false );
+      }
+    }
+
+    /**
+     * Steps into another user's identity, given either their access token or a complete session descriptor.  The current identity -- including
+     * its acting account and bound datacenter -- is suspended on a stack and can be returned to with `restoreIdentity()`.  Impersonations may be nested.
+     *
+     * Please note that suspended identities are held in memory only, and their tokens are not refreshed.  The impersonated identity is never
+     * persisted: the original identity remains in storage, so a reload (in this or any other tab) returns to it.
+     *
+     * @returns A promise that resolves once the impersonated identity's acting account has been resolved.  If the impersonated identity can't
+     * be established, the original identity is reinstated and the promise rejects.
+     */
+    public async impersonate( identity:string|AIMSSessionDescriptor, options:{actingAccount?:string|AIMSAccount,locationId?:string} = {} ):Promise<AlActingAccountResolvedEvent> {
+      if ( ! this.isActive() ) {
+        throw new Error("Usage error: impersonation requires an active session." );
+      }
+      const proposal = typeof( identity ) === 'string' ? await this.describeAccessToken( identity ) : identity;
+      this.validateSessionDescriptor( proposal );
+      if ( proposal.authentication.token_expiration <= this.getCurrentTimestamp() ) {
+        throw new AlResponseValidationError( "Cannot impersonate an identity whose token has already expired" );
+      }
+      const original:AIMSSessionDescriptor = JSON.parse( JSON.stringify( this.sessionData ) );
+      this.identityStack.push( original );
+      let result:AlActingAccountResolvedEvent;
+      try {
+        this.clearIdentity();
+        result = await this.setAuthentication( proposal, options );
+      } catch( e ) {
+        this.identityStack.pop();
+        await this.reinstateIdentity( original );
+        throw e;
+      }
+      this.notifyStream.trigger( new AlImpersonationStartedEvent( this.getUser(), original.authentication.user, this.identityStack.length, this ) );
+      return result;
+    }
+
+    /**
+     * Returns to the identity that was active before the most recent `impersonate()`, restoring its acting account and datacenter.  If that
+     * identity's token has expired in the meantime, the session is ended instead and the promise rejects.
+     */
+    public async restoreIdentity():Promise<AlActingAccountResolvedEvent> {
+      if ( this.identityStack.length === 0 ) {
+        throw new Error("Usage error: there is no suspended identity to restore." );
+      }
+      const impersonatedUser = this.getUser();
+      const previous = this.identityStack.pop();
+      const result = await this.reinstateIdentity( previous );
+      this.notifyStream.trigger( new AlImpersonationEndedEvent( impersonatedUser, previous.authentication.user, this.identityStack.length, this ) );
+      return result;
+    }
+
+    /**
+     * Indicates whether the current identity was assumed via `impersonate()`.
+     */
+    public isImpersonating():boolean {
+      return this.identityStack.length > 0;
+    }
+
+    /**
+     * Lists the current user's recently used acting accounts, pinned accounts first and otherwise most recent first.
+     */
+    public getRecentActingAccounts():AlRecentActingAccount[] {
+      if ( ! this.isActive() ) {
+        return [];
+      }
+      return this.accountHistory.list( this.getUserId() );
+    }
+
+    /**
+     * Pins an account to the top of the current user's recent acting accounts.  An account that isn't already in the list must be provided
+     * as a complete record.
+     *
+     * @returns true if the account is now pinned.
+     */
+    public pinActingAccount( account:string|AIMSAccount ):boolean {
+      if ( ! this.isActive() ) {
+        return false;
+      }
+      return this.accountHistory.pin( this.getUserId(), account );
+    }
+
+    /**
+     * Unpins an account from the current user's recent acting accounts.
+     *
+     * @returns true if the account was pinned.
+     */
+    public unpinActingAccount( accountId:string ):boolean {
+      if ( ! this.isActive() ) {
+        return false;
+      }
+      return this.accountHistory.unpin( this.getUserId(), accountId );
     }
 
     /**
@@ -330,7 +796,9 @@ export class AlSessionInstance
         this.sessionIsActive = true;
       }
       if ( this.sessionIsActive ) {
-        SubscriptionsClient.setInternalUser( this.getPrimaryAccountId() === "2" );
+        this.subscriptionsClient.setInternalUser( this.isInternalUser() );
+        this.scheduleTokenRefresh();
+        this.startIdleMonitor();
         if ( ! wasActive ) {
           this.notifyStream.tap();        //  *always* get notifyStream flowing at this point, so that we can intercept AlBeforeRequestEvents
           this.notifyStream.trigger( new AlSessionStartedEvent( this.sessionData.authentication.user, this.sessionData.authentication.account ) );
@@ -340,14 +808,30 @@ export class AlSessionInstance
     }
 
     /**
-     * Deactivate Session
+     * Deactivate Session.  Only a "logout" (the default) is propagated to other tabs.
      */
-    deactivateSession(): boolean {
+    deactivateSession( reason:AlSessionEndReason = "logout" ): boolean {
+      this.cancelTokenRefresh();
+      this.stopIdleMonitor();
+      if ( this.sessionData.authentication.user.id ) {
+        this.resolutionCache.invalidate( this.sessionData.authentication.user.id );
+      }
       this.sessionData = JSON.parse(JSON.stringify(AlNullSessionDescriptor));
+      this.identityStack = [];
+      this.actingAccountRequestId++;
+      this.actingAccountChangeId++;
+      this.resolvedAccount = new AlActingAccountResolvedEvent( null, new AlEntitlementCollection(), new AlEntitlementCollection(), new AlExperienceTree() );
+      this.resolutionBaseline = null;
+      this.resolvedDatacenter = null;
+      this.lastSuccessfulResolution = null;
+      this.prefetchedResolutions = new AlResolutionCache( new AlMemorySessionStorage() );
+      this.prefetchedMetadata = {};
+      this.resolutionRequests = {};
+      this.invalidateManagedAccounts();
       this.sessionIsActive = false;
-      this.storage.destroy();
-      this.notifyStream.trigger( new AlSessionEndedEvent( this ) );
-      ALClient.defaultAccountId = null;
+      this.clearPersistedSession();
+      this.notifyStream.trigger( new AlSessionEndedEvent( this, reason ) );
+      this.client.defaultAccountId = null;
       return this.isActive();
     }
 
@@ -463,6 +947,13 @@ export class AlSessionInstance
       return this.sessionData.authentication.user.email;
     }
 
+    /**
+     * Indicates whether the authenticated user belongs to Alert Logic's own (internal) primary account.
+     */
+    isInternalUser(): boolean {
+      return this.isActive() && this.getPrimaryAccountId() === "2";
+    }
+
     /**
      * @deprecated
      * Alias for getActingAccountId
@@ -499,17 +990,105 @@ export class AlSessionInstance
      * Convenience method to wait until authentication status and metadata have been resolved.
      *
      * PLEASE NOTE: that this async function will not resolve until authentication is complete and subscriptions metadata
-     * has been retrieved and collated; in an unauthenticated context, it will never resolve!
+     * has been retrieved and collated; in an unauthenticated context, it will never resolve!  See `resolvedWithin()` for a variant that
+     * settles in every case.
      */
     public async resolved(): Promise<void> {
       return this.resolutionGuard.then( () => {} );
     }
 
     /**
-     * Retrieves the primary account's entitlements, or null if there is no session.
+     * A variant of `resolved()` that never hangs: it settles with "unauthenticated" if there is no session (once any persisted session has
+     * been reinstated or discarded) or as soon as the session ends, with "timeout" if the optional timeout (in seconds) elapses, and with
+     * "aborted" if the optional signal is aborted.  Otherwise, it settles with "resolved" -- or "failed", if resolution failed and the session
+     * is degraded -- once metadata has been resolved.
      */
-    public getPrimaryEntitlementsSync():AlEntitlementCollection|null {
-      if ( ! this.sessionIsActive ) {
+    public resolvedWithin( options:AlSessionResolutionOptions = {} ):Promise<AlSessionResolutionResult> {
+      return new Promise<AlSessionResolutionResult>( resolve => {
+        const cleanup:(() => void)[] = [];
+        let settled = false;
+        const settle = ( result:AlSessionResolutionResult ) => {
+          if ( ! settled ) {
+            settled = true;
+            cleanup.forEach( release => release() );
+            resolve( result );
+          }
+        };
+        if ( options.signal && options.signal.aborted ) {
+          return settle( { status: "aborted" } );
+        }
+        if ( typeof( options.timeout ) === 'number' ) {
+          const timer = AlStopwatch.once( () => settle( { status: "timeout" } ), Math.max( 0, options.timeout * 1000 ) );
+          cleanup.push( () => timer.cancel() );
+        }
+        if ( options.signal ) {
+          const signal = options.signal;
+          const onAbort = () => settle( { status: "aborted" } );
+          signal.addEventListener( 'abort', onAbort );
+          cleanup.push( () => signal.removeEventListener( 'abort', onAbort ) );
+        }
+        const settleResolved = () => {
+          const resolved = this.resolvedAccount;
+          settle( resolved.error ? { resolved, status: "failed", error: resolved.error } : { resolved, status: "resolved" } );
+        };
+        this.rehydration.then( () => {
+          if ( settled ) {
+            return;
+          }
+          if ( ! this.isActive() ) {
+            return settle( { status: "unauthenticated" } );
+          }
+          if ( this.resolutionGuard.isFulfilled() ) {
+            return settleResolved();
+          }
+          //  Unlike the resolution guard, event subscriptions can be released if the wait is abandoned
+          const subscriptions = [
+            this.notifyStream.attach( AlSessionEndedEvent, () => settle( { status: "unauthenticated" } ) ),
+            this.notifyStream.attach( AlActingAccountResolvedEvent, settleResolved )
+          ];
+          cleanup.push( () => subscriptions.forEach( subscription => subscription.cancel() ) );
+        } );
+      } );
+    }
+
+    /**
+     * A variant of `getPrimaryEntitlements()` that never hangs; see `resolvedWithin()`.
+     */
+    public async getPrimaryEntitlementsWithin( options:AlSessionResolutionOptions = {} ):Promise<AlSessionBoundedResult<AlEntitlementCollection>> {
+      const result = await this.resolvedWithin( options );
+      return result.status === "resolved" || result.status === "failed" ? Object.assign( { value: result.resolved.primaryEntitlements }, result ) : result;
+    }
+
+    /**
+     * A variant of `getEffectiveEntitlements()` that never hangs; see `resolvedWithin()`.
+     */
+    public async getEffectiveEntitlementsWithin( options:AlSessionResolutionOptions = {} ):Promise<AlSessionBoundedResult<AlEntitlementCollection>> {
+      const result = await this.resolvedWithin( options );
+      return result.status === "resolved" || result.status === "failed" ? Object.assign( { value: result.resolved.entitlements }, result ) : result;
+    }
+
+    /**
+     * A variant of `getManagedAccounts()` that never waits indefinitely for resolution; see `resolvedWithin()`.  The bound applies only to
+     * resolution: once the acting account is resolved, managed accounts are retrieved (if they aren't cached) just as `getManagedAccounts()`
+     * retrieves them, and the promise rejects if they can't be.
+     */
+    public async getManagedAccountsWithin( options:AlSessionResolutionOptions = {} ):Promise<AlSessionBoundedResult<AIMSAccount[]>> {
+      const result = await this.resolvedWithin( options );
+      return result.status === "resolved" || result.status === "failed" ? Object.assign( { value: await this.getManagedAccounts() }, result ) : result;
+    }
+
+    /**
+     * Retrieves the error that left the session in a degraded state, if the acting account couldn't be resolved.  See `resolutionFailureMode`.
+     */
+    public getResolutionError():Error|null {
+      return this.sessionIsActive ? this.resolvedAccount.error : null;
+    }
+
+    /**
+     * Retrieves the primary account's entitlements, or null if there is no session.
+     */
+    public getPrimaryEntitlementsSync():AlEntitlementCollection|null {
+      if ( ! this.sessionIsActive ) {
         return null;
       }
       return this.resolvedAccount.primaryEntitlements;
@@ -517,7 +1096,7 @@ export class AlSessionInstance
 
     /**
      * Convenience method to retrieve the entitlements for the primary account.
-     * See caveats for `ALSession.authenticated` method, which also apply to this method.
+     * See caveats for `ALSession.authenticated` method, which also apply to this method, and `getPrimaryEntitlementsWithin()` for a variant that never hangs.
      */
     public async getPrimaryEntitlements():Promise<AlEntitlementCollection> {
       return this.resolutionGuard.then( () => this.getPrimaryEntitlementsSync() );
@@ -535,18 +1114,238 @@ export class AlSessionInstance
 
     /**
      * Convenience method to retrieve the entitlements for the current acting account.
-     * See caveats for `ALSession.authenticated` method, which also apply to this method.
+     * See caveats for `ALSession.authenticated` method, which also apply to this method, and `getEffectiveEntitlementsWithin()` for a variant that never hangs.
      */
     public async getEffectiveEntitlements():Promise<AlEntitlementCollection> {
       return this.resolutionGuard.then( () => this.resolvedAccount.entitlements );
     }
 
+    /**
+     * Evaluates an expression about the acting account's entitlements, the primary account's entitlements and the selected experiences,
+     * e.g. `cloud_defender&(tmc|!lm_essentials)`, `primary:tmc&experience:navigation.layout=beta`.  See `AlSessionExpression` for the
+     * syntax.  Returns false if there is no session; throws an AlSessionExpressionError if the expression is malformed.
+     *
+     * This evaluates against the most recently resolved acting account, so it should be used after `ALSession.resolved()` settles.
+     */
+    public evaluate( expression:string ):boolean {
+      const compiled = AlSessionExpression.compile( expression );
+      if ( ! this.sessionIsActive || ! this.resolvedAccount ) {
+        return false;
+      }
+      return compiled.evaluate( this.resolvedAccount );
+    }
+
+    /**
+     * Checks whether the user may perform an action on behalf of the acting account, e.g. `hasPermission("aims:own:manage:users")`; see
+     * AlPermissionSet for how wildcards are matched.  Returns false if there is no session or permissions haven't been resolved (see
+     * `resolvePermissions`).  See caveats for `ALSession.evaluate` method, which also apply to this method.
+     */
+    public hasPermission( permission:string ):boolean {
+      if ( ! this.sessionIsActive || ! this.resolvedAccount.permissions ) {
+        return false;
+      }
+      return this.resolvedAccount.permissions.has( permission );
+    }
+
+    /**
+     * Retrieves the experience selected at the given dot-separated path of the acting account's experience tree (use an empty path for the
+     * root), or null if there is no session or nothing is selected.
+     */
+    public getSelectedExperience( path:string ):string|null {
+      if ( ! this.sessionIsActive || ! this.resolvedAccount.experiences ) {
+        return null;
+      }
+      const node = AlExperiencePreferences.getNode( this.resolvedAccount.experiences, path );
+      return node && node.selected ? node.selected : null;
+    }
+
+    /**
+     * Selects one of the `available` experiences at the given path of the acting account's experience tree, and remembers the choice for
+     * this user and account (see `experiencePreferencesStorage` and `experiencePreferencesConduit`).  Emits AlExperienceChangedEvent if
+     * the selection changed.  Throws AlExperienceSelectionError if the path doesn't offer the requested experience.
+     */
+    public selectExperience( path:string, value:string ) {
+      if ( ! this.sessionIsActive || ! this.resolvedAccount.actingAccount ) {
+        throw new AlExperienceSelectionError( path, value, "there is no resolved session" );
+      }
+      const node = AlExperiencePreferences.getNode( this.resolvedAccount.experiences, path );
+      if ( ! node ) {
+        throw new AlExperienceSelectionError( path, value, "there is no selectable experience at this path" );
+      }
+      if ( node.available.indexOf( value ) === -1 ) {
+        throw new AlExperienceSelectionError( path, value, `it is not one of the available experiences (${node.available.join( ", " )})` );
+      }
+      const accountId = this.resolvedAccount.actingAccount.id;
+      const selections = this.experiencePreferences.set( this.getUserId(), accountId, path, value );
+      if ( this.options.experiencePreferencesConduit ) {
+        this.options.experiencePreferencesConduit.setGlobalSetting( AlExperiencePreferences.getKey( this.getUserId(), accountId ), selections )
+          .catch( error => console.warn( "Failed to save experience preferences to conduit", error ) );
+      }
+      const previous = node.selected || null;
+      if ( previous !== value ) {
+        node.selected = value;
+        this.notifyStream.trigger( new AlExperienceChangedEvent( path, value, previous, this ) );
+      }
+    }
+
+    /**
+     * Retrieves the developer overrides in effect for this browser, or null if there are none.
+     */
+    public getDeveloperOverrides():AlDeveloperOverrides|null {
+      return this.developerOverrides.get();
+    }
+
+    /**
+     * Force-grants or revokes entitlements and overrides experiences for this browser, so that gated features can be previewed without
+     * changing any subscriptions.  Overrides persist across page loads until cleared by passing null.  They can also be set with the
+     * `al_overrides` query string parameter (see AlDeveloperOverrideStore and `developerOverridesFromUrl`) or from the console via
+     * `al.session.setOverrides()`.
+     *
+     * Emits AlDeveloperOverridesChangedEvent and, if the acting account has been resolved, a new AlActingAccountResolvedEvent reflecting the overrides.
+     */
+    public setDeveloperOverrides( overrides:AlDeveloperOverrides|null ) {
+      this.developerOverrides.set( overrides );
+      const effective = this.developerOverrides.get();
+      this.notifyStream.trigger( new AlDeveloperOverridesChangedEvent( effective !== null, effective, this ) );
+      const baseline = this.resolutionBaseline;
+      if ( ! this.sessionIsActive || ! this.resolutionGuard.isFulfilled() || this.resolvedAccount.error || ! baseline ) {
+        return;
+      }
+      const resolved = new AlActingAccountResolvedEvent( baseline.actingAccount, baseline.entitlements, baseline.primaryEntitlements, baseline.experiences );
+      resolved.roles = baseline.roles;
+      resolved.permissions = baseline.permissions;
+      this.prepareResolution( resolved );
+      this.resolvedAccount = resolved;
+      this.notifyStream.trigger( resolved );
+    }
+
     /**
      * Convenience method to retrieve the array of accounts managed by the current acting account.
-     * See caveats for `ALSession.authenticated` method, which also apply to this method.
+     * See caveats for `ALSession.authenticated` method, which also apply to this method, and `getManagedAccountsWithin()` for a variant that never hangs.
      */
     public async getManagedAccounts():Promise<AIMSAccount[]> {
-      return this.resolutionGuard.then( () => AIMSClient.getManagedAccounts( this.getActingAccountId(), { active: true } ) );
+      const hierarchy = await this.getManagedAccountHierarchy();
+      return hierarchy.getChildren();
+    }
+
+    /**
+     * Retrieves the hierarchy of accounts managed by the current acting account, which supports lookup by ID, parent/child navigation,
+     * text search and pagination.  The hierarchy is cached for `managedAccountsCacheTTL` seconds, and is discarded when the acting account
+     * changes or the session ends.  See caveats for `ALSession.authenticated` method, which also apply to this method.
+     */
+    public async getManagedAccountHierarchy():Promise<AlManagedAccountHierarchy> {
+      await this.resolutionGuard;
+      if ( ! this.managedAccountHierarchy || this.managedAccountHierarchyExpiration <= this.getCurrentTimestamp() ) {
+        const loader = ( accountId:string ) => this.aimsClient.getManagedAccounts( accountId, { active: true } );
+        const hierarchy = AlManagedAccountHierarchy.load( this.getActingAccount(), loader, this.options.managedAccountsDepth );
+        this.managedAccountHierarchy = hierarchy;
+        this.managedAccountHierarchyExpiration = this.getCurrentTimestamp() + this.options.managedAccountsCacheTTL;
+        hierarchy.catch( () => {
+          if ( this.managedAccountHierarchy === hierarchy ) {
+            this.invalidateManagedAccounts();
+          }
+        } );
+      }
+      return this.managedAccountHierarchy;
+    }
+
+    /**
+     * Validates data against a schema according to `validationMode`, throwing an AlResponseValidationError that lists the offending violations
+     * if the data is rejected.  `subject` names the data in messages (e.g., "a session descriptor").
+     *
+     * @returns Every violation found, whether or not it caused rejection.
+     */
+    public validateSchema( data:any, schema:AlSchema, subject:string ):AlSchemaViolation[] {
+      return new AlSchemaValidator( this.options.validationMode ).validate( data, schema, subject );
+    }
+
+    /**
+     * Discards the current user's cached resolution of the given account, or of all accounts.  See `resolutionCacheTTL`.
+     */
+    public invalidateResolutionCache( accountId?:string ) {
+      if ( this.isActive() ) {
+        this.resolutionCache.invalidate( this.getUserId(), accountId );
+      }
+    }
+
+    /**
+     * Resolves an account's metadata ahead of time, without changing the acting account, so that a subsequent switch to it completes
+     * immediately (see `prefetchTTL`).  Requests are shared with any acting account change that needs them while they are in flight, so
+     * prefetching never causes the same data to be fetched twice.  Prefetching is best effort: failures are logged, not thrown.
+     *
+     * @returns true if the account's resolution is warm.
+     */
+    public async prefetchAccount( account:string|AIMSAccount ):Promise<boolean> {
+      const accountId = typeof( account ) === 'string' ? account : account.id;
+      if ( ! this.isActive() || ! this.options.resolveAccountMetadata || ! accountId ) {
+        return false;
+      }
+      if ( accountId === this.getActingAccountId() || this.getPrefetchedResolution( accountId ) ) {
+        return true;
+      }
+      const userId = this.getUserId();
+      try {
+        return await this.shareResolutionRequest( `prefetch:${accountId}`, async () => {
+          const metadata = this.options.useConsolidatedResolver ? await this.fetchConsolidatedMetadata( accountId ).catch( () => null ) : null;
+          const resolved = await ( metadata ? this.buildConsolidatedResolution( metadata ) : this.fetchResolution( accountId ) );
+          if ( ! this.isActive() || this.getUserId() !== userId ) {
+            return false;
+          }
+          this.prefetchedResolutions.store( userId, AlResolutionCache.serialize( resolved ) );
+          if ( metadata ) {
+            this.prefetchedMetadata[accountId] = metadata;
+          } else {
+            delete this.prefetchedMetadata[accountId];
+          }
+          return true;
+        } );
+      } catch( e ) {
+        console.warn( `Warning: could not prefetch account "${accountId}"`, e );
+        return false;
+      }
+    }
+
+    /**
+     * Prefetches an account when the pointer rests on the given element (e.g., an entry in an account selector) for `prefetchHoverDelay`
+     * seconds.
+     *
+     * @returns A function that stops watching the element.
+     */
+    public prefetchOnHover( target:EventTarget, account:string|AIMSAccount, delay:number = this.options.prefetchHoverDelay ):() => void {
+      let timer:AlStopwatch = null;
+      const cancel = () => {
+        if ( timer ) {
+          timer.cancel();
+          timer = null;
+        }
+      };
+      const onEnter = () => {
+        cancel();
+        const prefetch = () => {
+          timer = null;
+          this.prefetchAccount( account );
+        };
+        timer = AlStopwatch.once( prefetch, Math.max( 0, delay * 1000 ) );
+      };
+      target.addEventListener( 'mouseenter', onEnter );
+      target.addEventListener( 'focus', onEnter );
+      target.addEventListener( 'mouseleave', cancel );
+      target.addEventListener( 'blur', cancel );
+      return () => {
+        cancel();
+        target.removeEventListener( 'mouseenter', onEnter );
+        target.removeEventListener( 'focus', onEnter );
+        target.removeEventListener( 'mouseleave', cancel );
+        target.removeEventListener( 'blur', cancel );
+      };
+    }
+
+    /**
+     * Discards the cached managed account hierarchy, so that it will be reloaded on next use.
+     */
+    public invalidateManagedAccounts() {
+      this.managedAccountHierarchy = null;
+      this.managedAccountHierarchyExpiration = 0;
     }
 
     /**
@@ -560,113 +1359,782 @@ export class AlSessionInstance
       return new Date().getTime() / 1000;
     }
 
+    /**
+     * Builds a session descriptor for an access token using AIMS token info.
+     */
+    protected async describeAccessToken( accessToken:string ):Promise<AIMSSessionDescriptor> {
+      const tokenInfo = await this.aimsClient.getTokenInfo( accessToken );
+      return {
+        authentication: {
+          account: tokenInfo.account,
+          user: tokenInfo.user,
+          token: accessToken,
+          token_expiration: tokenInfo.token_expiration
+        }
+      };
+    }
+
+    /**
+     * Clears the authenticated user, primary account and bound datacenter ahead of switching identities.  The acting account is left in place so
+     * that the resulting AlActingAccountChangedEvent reports the account being switched away from.
+     */
+    protected clearIdentity() {
+      this.sessionData.authentication = JSON.parse(JSON.stringify(AlNullSessionDescriptor.authentication));
+      delete this.sessionData.boundLocationId;
+    }
+
+    /**
+     * Reinstates a suspended identity along with its acting account and bound datacenter.
+     */
+    protected async reinstateIdentity( descriptor:AIMSSessionDescriptor ):Promise<AlActingAccountResolvedEvent> {
+      if ( descriptor.authentication.token_expiration <= this.getCurrentTimestamp() ) {
+        this.deactivateSession( "expired" );
+        throw new AlResponseValidationError( "The suspended identity's token has expired; the session has been ended" );
+      }
+      this.clearIdentity();
+      return this.setAuthentication( descriptor, { actingAccount: descriptor.acting, locationId: descriptor.boundLocationId } );
+    }
+
+    /**
+     * Writes the current session to storage in a versioned envelope (see AlSessionMigrations), encrypting it first if persistence encryption
+     * is enabled.  Encrypted writes are asynchronous, so they are serialized and any write that completes after the persisted session has
+     * been cleared is dropped.  While impersonating, the original identity is left in storage untouched.
+     */
+    protected persistSession() {
+      if ( this.identityStack.length > 0 ) {
+        return;
+      }
+      if ( ! this.cipher ) {
+        this.storage.set( "session", AlSessionMigrations.wrap( this.sessionData ) );
+        return;
+      }
+      const cipher = this.cipher;
+      const storage = this.storage;
+      const generation = this.persistenceGeneration;
+      const snapshot = JSON.parse( JSON.stringify( AlSessionMigrations.wrap( this.sessionData ) ) );
+      this.persistenceQueue = this.persistenceQueue
+        .then( () => cipher.encrypt( snapshot ) )
+        .then( envelope => {
+          if ( generation === this.persistenceGeneration ) {
+            storage.set( "session", envelope );
+          }
+        } )
+        .catch( error => console.warn( "Failed to persist encrypted session", error ) );
+    }
+
+    protected clearPersistedSession() {
+      this.persistenceGeneration++;
+      this.storage.destroy();
+    }
+
+    protected setPersistenceEncryption( scope:AlSessionEncryptionScope ) {
+      if ( ! scope ) {
+        this.cipher = null;
+      } else if ( ! AlSessionCipher.isSupported() ) {
+        console.warn( "Session encryption requires WebCrypto and IndexedDB; the session will be kept in memory only rather than persisted without encryption." );
+        this.cipher = null;
+        this.storage = new AlMemorySessionStorage();
+        //  This may happen during construction, so give listeners a chance to attach first
+        setTimeout( () => this.notifyStream.trigger( new AlSessionEncryptionUnavailableEvent( scope, this ) ), 0 );
+      } else if ( ! this.cipher || this.cipher.scope !== scope ) {
+        this.cipher = new AlSessionCipher( scope, this.namespace );
+      }
+      if ( this.isActive() ) {
+        this.persistSession();
+      }
+    }
+
+    /**
+     * Checks whether a plaintext persisted value holds an expired session, without otherwise validating it.
+     */
+    protected persistedSessionExpired( persisted:any ):boolean {
+      let persistedSession:AIMSSessionDescriptor;
+      try {
+        persistedSession = AlSessionMigrations.migrate( persisted ).session;
+      } catch( e ) {
+        return false;       //  rehydrateSession will report the problem
+      }
+      return ! persistedSession || ! persistedSession.authentication || persistedSession.authentication.token_expiration < this.getCurrentTimestamp();
+    }
+
+    /**
+     * Upgrades a persisted value to the current format and reinstates the session it contains.
+     */
+    protected async rehydrateSession( persisted:any, decrypted:boolean = false ) {
+      if ( this.cipher && ! decrypted ) {
+        //  Encryption is required, so a plaintext session can't be trusted (it may have been planted to bypass integrity checks)
+        return this.discardPersistedSession( "unencrypted", new Error( "Found an unencrypted persisted session while persistence encryption is enabled" ) );
+      }
+      let persistedSession:AIMSSessionDescriptor;
+      try {
+        persistedSession = AlSessionMigrations.migrate( persisted ).session;
+      } catch( e ) {
+        return this.discardPersistedSession( "unsupported", e );
+      }
+      if ( ! persistedSession || ! persistedSession.authentication || persistedSession.authentication.token_expiration < this.getCurrentTimestamp() ) {
+        this.clearPersistedSession();
+        return;
+      }
+      //  Reject malformed sessions before anything is activated; violations that don't cause rejection are reported by setAuthentication
+      const validator = new AlSchemaValidator( this.options.validationMode );
+      const rejected = AlSchemaValidator.check( persistedSession, AlSessionSchemas.sessionDescriptor ).filter( violation => validator.isFatal( violation ) );
+      if ( rejected.length > 0 ) {
+        const description = AlSchemaValidator.describe( "a persisted session", rejected );
+        return this.discardPersistedSession( "invalid", new AlResponseValidationError( description, rejected ) );
+      }
+      try {
+        await this.setAuthentication( persistedSession, { locationId: persistedSession.boundLocationId } );
+      } catch( e ) {
+        this.deactivateSession( "invalid" );
+        console.warn(`Failed to reinstate session from localStorage: ${e.message}`, e );
+        this.notifyStream.trigger( new AlSessionRehydrationFailedEvent( "invalid", e, this ) );
+      }
+    }
+
+    /**
+     * Decrypts, verifies, and reinstates an encrypted persisted session.
+     */
+    protected async rehydrateEncryptedSession( envelope:AlEncryptedSessionEnvelope ) {
+      const cipher = this.cipher && this.cipher.scope === envelope.scope ? this.cipher : new AlSessionCipher( envelope.scope, this.namespace );
+      if ( ! AlSessionCipher.isSupported() || ! await cipher.hasKey() ) {
+        //  Most likely another tab's session, encrypted with that tab's key; it is still readable there, so leave it alone
+        return;
+      }
+      let persisted:any;
+      try {
+        persisted = await cipher.decrypt( envelope );
+      } catch( e ) {
+        return this.discardPersistedSession( "tampered", e );
+      }
+      return this.rehydrateSession( persisted, true );
+    }
+
+    protected discardPersistedSession( reason:string, error:Error ) {
+      console.warn( `Discarding persisted session (${reason}): ${error.message}` );
+      this.clearPersistedSession();
+      this.notifyStream.tap();        //  this happens before any session exists, so make sure listeners actually hear about it
+      this.notifyStream.trigger( new AlSessionRehydrationFailedEvent( reason, error, this ) );
+    }
+
+    /**
+     * Schedules the next token refresh.  By default, this will occur `tokenRefreshLeadTime` seconds before the current token expires;
+     * an explicit delay (in seconds) may be provided instead.
+     */
+    protected scheduleTokenRefresh( delay?:number ) {
+      this.cancelTokenRefresh();
+      if ( ! this.options.tokenRefresher ) {
+        return;
+      }
+      if ( typeof( delay ) !== 'number' ) {
+        delay = this.getTokenExpiry() - this.options.tokenRefreshLeadTime - this.getCurrentTimestamp();
+      }
+      //  Timers can't be scheduled more than ~24.8 days out, so long-lived tokens are handled by checking in periodically
+      const maximumDelay = 2147483647;
+      const milliseconds = Math.min( Math.max( 0, Math.floor( delay * 1000 ) ), maximumDelay );
+      const onTimer = () => {
+        this.refreshTimer = null;
+        if ( milliseconds === maximumDelay ) {
+          this.scheduleTokenRefresh();
+        } else {
+          this.refreshToken();
+        }
+      };
+      this.refreshTimer = AlStopwatch.once( onTimer, milliseconds );
+    }
+
+    protected cancelTokenRefresh() {
+      if ( this.refreshTimer ) {
+        this.refreshTimer.cancel();
+        this.refreshTimer = null;
+      }
+    }
+
+    protected startIdleMonitor() {
+      if ( this.idleMonitor && ! this.idleMonitor.isRunning() ) {
+        this.idleMonitor.start();
+      }
+    }
+
+    protected stopIdleMonitor() {
+      if ( this.idleMonitor ) {
+        this.idleMonitor.stop();
+      }
+    }
+
+    /**
+     * Sessions bound to their own API client leave process-wide state -- the locator context, the internal user flag, and the `al.session`
+     * console interface -- to the default session.  See AlSessionRegistryInstance.create for what this means for their requests.
+     */
+    protected usesDefaultClient():boolean {
+      return this.client === AlDefaultClient;
+    }
+
+    protected exposeConsoleInterface() {
+      /* istanbul ignore next */
+      AlGlobalizer.expose( 'al.session', {
+
+          state: () => {
+              return this.sessionData;
+          },
+          setActingAccount: ( accountId:string ) => {
+              if ( ! this.isActive() ) {
+                  console.warn("The acting account cannot be changed while in an unauthenticated state." );
+                  return;
+              }
+              this.setActingAccount( accountId )
+                    .then(  result => {
+                                console.log("OK");
+                            },
+                            error => {
+                                console.warn("Failed to set the acting account", error );
+                            } );
+          },
+          overrides: () => {
+              return this.getDeveloperOverrides();
+          },
+          setOverrides: ( overrides:string|AlDeveloperOverrides ) => {
+              this.setDeveloperOverrides( typeof( overrides ) === 'string' ? AlDeveloperOverrideStore.parse( overrides ) : overrides );
+              console.log( "OK" );
+          },
+          clearOverrides: () => {
+              this.setDeveloperOverrides( null );
+              console.log( "OK" );
+          }
+      } );
+    }
+
+    /**
+     * Implements `setActingAccount`.  Before-change hooks are only consulted if `vetoable` is true.
+     */
+    protected async changeActingAccount( account:string|AIMSAccount, vetoable:boolean ):Promise<AlActingAccountResolvedEvent> {
+      if ( ! account ) {
+        throw new Error("Usage error: setActingAccount requires an account ID or account descriptor." );
+      }
+      //  A later request supersedes this one until it is committed; after that, only a later committed change (or logout) supersedes it
+      const requestId = ++this.actingAccountRequestId;
+      if ( typeof( account ) === 'string' ) {
+        const accountId = account;
+        const prefetched = await this.awaitPrefetchedResolution( accountId );
+        account = prefetched
+          ? prefetched.actingAccount
+          : await this.fetchAccountDetails( accountId );
+        this.assertCurrentActingAccountChange( requestId, accountId, this.actingAccountRequestId );
+      }
+      if ( vetoable && this.actingAccountChangeHooks.length > 0 && this.sessionData.acting && this.sessionData.acting.id !== account.id ) {
+        await this.runActingAccountChangeHooks( this.sessionData.acting, account );
+        this.assertCurrentActingAccountChange( requestId, account.id, this.actingAccountRequestId );
+      }
+      const changeId = ++this.actingAccountChangeId;
+
+      const previousAccount               = this.sessionData.acting;
+      const actingAccountChanged          = ! this.sessionData.acting || this.sessionData.acting.id !== account.id;
+      if ( actingAccountChanged ) {
+        this.invalidateManagedAccounts();
+      }
+
+      this.sessionData.acting             = account;
+
+      this.setActiveDatacenter( this.selectDatacenter( account ) );
+
+      this.client.defaultAccountId        = account.id;
+
+      if ( ! this.options.resolveAccountMetadata ) {
+        //  If metadata resolution is disabled, still trigger changed/resolved events with basic data
+        const resolved = new AlActingAccountResolvedEvent( account, new AlEntitlementCollection(), new AlEntitlementCollection(), new AlExperienceTree() );
+        this.prepareResolution( resolved );
+        this.resolvedAccount = resolved;
+        this.notifyStream.trigger( new AlActingAccountChangedEvent( previousAccount, account, this ) );
+        this.resolutionGuard.resolve(true);
+        this.notifyStream.trigger( this.resolvedAccount );
+        this.accountHistory.record( this.getUserId(), account );
+        return Promise.resolve( this.resolvedAccount );
+      }
+
+      if ( actingAccountChanged || ! this.resolutionGuard.isFulfilled() ) {
+        this.resolutionGuard.rescind();
+        if ( this.usesDefaultClient() ) {
+          AlLocatorService.setContext( {
+              insightLocationId: this.sessionData.boundLocationId,
+              accessible: account.accessible_locations
+          } );
+        }
+        this.notifyStream.trigger( new AlActingAccountChangedEvent( previousAccount, this.sessionData.acting, this ) );
+        this.persistSession();
+        const cached = this.options.resolutionCacheTTL > 0 ? this.resolutionCache.get( this.getUserId(), account.id, this.options.resolutionCacheTTL ) : null;
+        if ( cached ) {
+          const stale = AlResolutionCache.deserialize( cached );
+          stale.cached = true;
+          this.publishResolution( stale );
+          this.accountHistory.record( this.getUserId(), account );
+          this.revalidateActingAccount( account, changeId );
+          this.prefetchRecentAccounts();
+          return stale;
+        }
+        const prefetched = await this.awaitPrefetchedResolution( account.id );
+        this.assertCurrentActingAccountChange( changeId, account.id );
+        if ( prefetched ) {
+          this.prefetchedResolutions.invalidate( this.getUserId(), account.id );
+          if ( this.prefetchedMetadata[account.id] ) {
+            this.primeFromConsolidatedMetadata( this.prefetchedMetadata[account.id] );
+            delete this.prefetchedMetadata[account.id];
+          }
+          const resolved = this.publishResolution( AlResolutionCache.deserialize( prefetched ) );
+          this.accountHistory.record( this.getUserId(), account );
+          this.prefetchRecentAccounts();
+          return resolved;
+        }
+        const resolved = await ( this.options.useConsolidatedResolver
+          ? this.resolveActingAccountConsolidated( account, changeId )
+          : this.resolveActingAccount( account, changeId ) );
+        this.accountHistory.record( this.getUserId(), account );
+        this.prefetchRecentAccounts();
+        return resolved;
+      } else {
+        return Promise.resolve( this.resolvedAccount );
+      }
+    }
+
+    /**
+     * Runs before-change hooks in order, emitting an AlActingAccountChangeVetoedEvent and throwing an AlActingAccountChangeVetoedError if
+     * any of them vetoes the change.
+     */
+    protected async runActingAccountChangeHooks( from:AIMSAccount, to:AIMSAccount ) {
+      for ( const hook of this.actingAccountChangeHooks.slice() ) {
+        let reason:string = null;
+        try {
+          if ( await hook( { from, to } ) === false ) {
+            reason = "The change was vetoed by a before-change hook";
+          }
+        } catch( e ) {
+          reason = e && e.message ? e.message : String( e );
+        }
+        if ( reason !== null ) {
+          this.notifyStream.trigger( new AlActingAccountChangeVetoedEvent( from, to, reason, this ) );
+          throw new AlActingAccountChangeVetoedError( to.id, reason );
+        }
+      }
+    }
+
+    /**
+     * Abandons an acting account change that has been superseded by a later one (or by the end of the session), emitting an
+     * AlActingAccountChangeCancelledEvent and throwing an AlActingAccountChangeCancelledError.  The event is not emitted if `revalidating`
+     * is true, since the change itself was already committed from the resolution cache.
+     */
+    protected assertCurrentActingAccountChange( changeId:number,
+                                                requestedAccountId:string,
+                                                latestChangeId:number = this.actingAccountChangeId,
+                                                revalidating:boolean = false ) {
+      if ( changeId !== latestChangeId ) {
+        if ( ! revalidating ) {
+          this.notifyStream.trigger( new AlActingAccountChangeCancelledEvent( requestedAccountId, this ) );
+        }
+        throw new AlActingAccountChangeCancelledError( requestedAccountId );
+      }
+    }
+
     /**
      * A utility method to resolve a partially populated AlActingAccountResolvedEvent instance.
      *
      * This method will retrieve the full account details, managed accounts, and entitlements for this account
      * and then emit an AlActingAccountResolvedEvent through the session's notifyStream.
      */
-    protected async resolveActingAccount( account:AIMSAccount ) {
-      const resolved:AlActingAccountResolvedEvent = new AlActingAccountResolvedEvent( account, null, null, null );
-      let dataSources:Promise<any>[] = [
-          AIMSClient.getAccountDetails( account.id ),
-          SubscriptionsClient.getEntitlements( this.getPrimaryAccountId() ) ];
-
-      if ( account.id !== this.getPrimaryAccountId() ) {
-        dataSources.push( SubscriptionsClient.getEntitlements( account.id ) );
-      }
-
-      return Promise.all( dataSources )
-              .then(  dataObjects => {
-                        const account:AIMSAccount                           =   dataObjects[0];
-                        const primaryEntitlements:AlEntitlementCollection   =   dataObjects[1];
-                        let actingEntitlements:AlEntitlementCollection;
-                        if ( dataObjects.length > 2 ) {
-                          actingEntitlements                                =   dataObjects[2];
-                        } else {
-                          actingEntitlements                                =   primaryEntitlements;
-                        }
-
-                        resolved.actingAccount      =   account;
-                        resolved.primaryEntitlements=   primaryEntitlements;
-                        resolved.entitlements       =   actingEntitlements;
-                        resolved.experiences        =   new AlExperienceTree();
-                        this.resolvedAccount        =   resolved;
-                        this.resolutionGuard.resolve(true);
-                        this.notifyStream.trigger( resolved );
-
-                        return resolved;
+    protected async resolveActingAccount( account:AIMSAccount, changeId:number = this.actingAccountChangeId, revalidating:boolean = false ) {
+      return this.fetchResolution( account.id )
+              .then(  resolved => {
+                        this.assertCurrentActingAccountChange( changeId, account.id, this.actingAccountChangeId, revalidating );
+                        return this.publishResolution( resolved );
                       },
                       error => {
+                        this.assertCurrentActingAccountChange( changeId, account.id, this.actingAccountChangeId, revalidating );
+                        if ( revalidating ) {
+                          console.warn(`Warning: could not revalidate the cached resolution of acting account "${account.id}"`, error );
+                          return this.resolvedAccount;
+                        }
                         console.error(`Error: could not resolve the acting account to "${account.id}"`, error );
-                        return Promise.reject( error );
+                        return this.onResolutionFailure( account, error );
                       } );
     }
 
-    protected async resolveActingAccountConsolidated( account:AIMSAccount ) {
+    /**
+     * Retrieves the full account details and entitlements for an account (and, if `resolvePermissions` is enabled, the user's roles and
+     * permissions), without affecting the session.  Callers must check for themselves whether the result is still wanted.
+     */
+    protected async fetchResolution( accountId:string ):Promise<AlActingAccountResolvedEvent> {
+      const primaryAccountId = this.getPrimaryAccountId();
+      let dataSources:Promise<any>[] = [
+          this.fetchAccountDetails( accountId ),
+          this.shareResolutionRequest( `entitlements:${primaryAccountId}`,
+                                       () => this.retryResolutionRequest( () => this.subscriptionsClient.getEntitlements( primaryAccountId ) ) ) ];
+
+      if ( accountId !== primaryAccountId ) {
+        dataSources.push( this.shareResolutionRequest( `entitlements:${accountId}`,
+                                                       () => this.retryResolutionRequest( () => this.subscriptionsClient.getEntitlements( accountId ) ) ) );
+      }
+      const permissionSource = this.options.resolvePermissions ? this.resolvePermissions( accountId ) : Promise.resolve( null );
+
+      const [ dataObjects, permissions ] = await Promise.all( [ Promise.all( dataSources ), permissionSource ] );
+      const primaryEntitlements:AlEntitlementCollection = dataObjects[1];
+      const actingEntitlements:AlEntitlementCollection = dataObjects.length > 2 ? dataObjects[2] : primaryEntitlements;
+      const resolved = new AlActingAccountResolvedEvent( dataObjects[0], actingEntitlements, primaryEntitlements, new AlExperienceTree() );
+      if ( permissions ) {
+        resolved.roles = permissions.roles;
+        resolved.permissions = permissions.permissions;
+      }
+      return resolved;
+    }
+
+    protected fetchAccountDetails( accountId:string ):Promise<AIMSAccount> {
+      return this.shareResolutionRequest( `details:${accountId}`,
+                                          () => this.retryResolutionRequest( () => this.aimsClient.getAccountDetails( accountId ) ) );
+    }
+
+    /**
+     * Issues a request, or joins the identical request already in flight.
+     */
+    protected shareResolutionRequest<ResultType>( key:string, request:() => Promise<ResultType> ):Promise<ResultType> {
+      if ( ! this.resolutionRequests.hasOwnProperty( key ) ) {
+        const requests = this.resolutionRequests;
+        const pending = request();
+        const release = () => {
+          if ( requests[key] === pending ) {
+            delete requests[key];
+          }
+        };
+        requests[key] = pending;
+        pending.then( release, release );
+      }
+      return this.resolutionRequests[key];
+    }
+
+    /**
+     * Retrieves the current user's prefetched resolution of an account, if it is still fresh.
+     */
+    protected getPrefetchedResolution( accountId:string ):AlCachedResolution|null {
+      return this.isActive() ? this.prefetchedResolutions.get( this.getUserId(), accountId, this.options.prefetchTTL ) : null;
+    }
+
+    /**
+     * Waits for the account's prefetch to settle if one is in flight, then retrieves its prefetched resolution.
+     */
+    protected async awaitPrefetchedResolution( accountId:string ):Promise<AlCachedResolution|null> {
+      const prefetch = this.resolutionRequests[`prefetch:${accountId}`];
+      if ( prefetch ) {
+        await prefetch.catch( () => false );
+      }
+      return this.getPrefetchedResolution( accountId );
+    }
+
+    /**
+     * Prefetches the user's most recent acting accounts, according to `prefetchRecentAccounts`.
+     */
+    protected prefetchRecentAccounts() {
+      if ( ! ( this.options.prefetchRecentAccounts > 0 ) ) {
+        return;
+      }
+      const actingAccountId = this.getActingAccountId();
+      this.getRecentActingAccounts()
+        .filter( entry => entry.account.id !== actingAccountId )
+        .slice( 0, this.options.prefetchRecentAccounts )
+        .forEach( entry => this.prefetchAccount( entry.account.id ) );
+    }
+
+    /**
+     * Makes a freshly resolved account the session's current resolution: applies preferences and overrides, caches it, releases the
+     * resolution guard, and emits it.  If it merely confirms the cached resolution currently in effect, nothing is emitted.
+     */
+    protected publishResolution( resolved:AlActingAccountResolvedEvent ):AlActingAccountResolvedEvent {
+      const current = this.resolvedAccount;
+      const previousBaseline = this.resolutionBaseline;
+      this.prepareResolution( resolved );
+      const serialized = AlResolutionCache.serialize( this.resolutionBaseline );
+      if ( this.options.resolutionCacheTTL > 0 && ! resolved.cached ) {
+        this.resolutionCache.store( this.getUserId(), serialized );
+      }
+      if ( current.cached && ! resolved.cached && previousBaseline && this.resolutionGuard.isFulfilled()
+            && AlResolutionCache.isEquivalent( AlResolutionCache.serialize( previousBaseline ), serialized ) ) {
+        current.cached = false;
+        return current;
+      }
+      this.resolvedAccount = resolved;
+      this.resolutionGuard.resolve( true );
+      this.notifyStream.trigger( resolved );
+      this.loadSharedExperiencePreferences( resolved );
+      return resolved;
+    }
+
+    /**
+     * Resolves an account whose cached resolution is in effect, in the background.
+     */
+    protected revalidateActingAccount( account:AIMSAccount, changeId:number ) {
+      const revalidation = this.options.useConsolidatedResolver
+        ? this.resolveActingAccountConsolidated( account, changeId, true )
+        : this.resolveActingAccount( account, changeId, true );
+      revalidation.catch( error => {
+        if ( ! ( error instanceof AlActingAccountChangeCancelledError ) ) {
+          console.warn( `Warning: could not revalidate the cached resolution of acting account "${account.id}"`, error );
+        }
+      } );
+    }
+
+    /**
+     * Executes a request on behalf of acting account resolution, retrying it according to `resolutionRetryPolicy` unless the error is a
+     * client error.  Since a shared request may serve several acting account changes and prefetches, it is never abandoned because one of
+     * them has been superseded; each caller decides what to do with the outcome.
+     */
+    protected async retryResolutionRequest<ResultType>( request:() => Promise<ResultType> ):Promise<ResultType> {
+      const policy = Object.assign( { attempts: 3, delay: 1, backoff: 2, maxDelay: 30 }, this.options.resolutionRetryPolicy );
+      let delay = policy.delay;
+      for ( let attempt = 1; ; attempt++ ) {
+        try {
+          return await request();
+        } catch( e ) {
+          const status = e && ( e.status || ( e.response && e.response.status ) );
+          const retryable = ! status || status >= 500 || status === 429;
+          if ( ! retryable || attempt >= policy.attempts ) {
+            throw e;
+          }
+          console.warn( `Acting account resolution request failed (attempt ${attempt} of ${policy.attempts}); retrying`, e );
+          const wait = Math.min( delay, policy.maxDelay ) * 1000;
+          await new Promise<void>( resolve => AlStopwatch.once( resolve, wait ) );
+          delay *= policy.backoff;
+        }
+      }
+    }
+
+    /**
+     * Retrieves the roles assigned to the user (by their primary account) and their effective permissions for the given acting account.
+     * If the user's permissions can't be retrieved directly, they are derived from the roles; if the roles can't be retrieved either, the
+     * user has no permissions.  Neither failure causes the acting account's resolution to fail.
+     */
+    protected async resolvePermissions( accountId:string ):Promise<{roles:AIMSRole[],permissions:AlPermissionSet}> {
+      const userId = this.getUserId();
+      const primaryAccountId = this.getPrimaryAccountId();
+      const [ roles, permissions ] = await Promise.all( [
+        this.shareResolutionRequest( `roles:${userId}`,
+                                     () => this.retryResolutionRequest<AIMSRole[]>( () => this.aimsClient.getAssignedRoles( primaryAccountId, userId ) ) )
+          .catch( error => {
+            console.warn( "Failed to retrieve the user's roles; continuing without them", error );
+            return null;
+          } ),
+        this.shareResolutionRequest( `permissions:${userId}:${accountId}`,
+                                     () => this.retryResolutionRequest<any>( () => this.aimsClient.getUserPermissions( accountId, userId ) ) )
+          .catch( error => {
+            console.warn( "Failed to retrieve the user's permissions; deriving them from their roles", error );
+            return null;
+          } )
+      ] );
+      return {
+        roles: roles || [],
+        permissions: permissions ? AlPermissionSet.import( permissions ) : AlPermissionSet.fromRoles( roles )
+      };
+    }
+
+    /**
+     * Recovers from a failure to resolve the acting account, according to `resolutionFailureMode`.  In either case, the resolution guard is
+     * released so that nothing waiting on `resolved()` is left hanging, and an AlActingAccountResolvedEvent describes the account in effect.
+     */
+    protected onResolutionFailure( account:AIMSAccount, error:Error ):Promise<AlActingAccountResolvedEvent> {
+      const previous = this.resolvedAccount;
+      const canRollBack = previous.actingAccount && ! previous.error && previous.actingAccount.id !== account.id;
+      if ( this.options.resolutionFailureMode === "rollback" && canRollBack ) {
+        this.sessionData.acting = previous.actingAccount;
+        this.setActiveDatacenter( this.selectDatacenter( previous.actingAccount ) );
+        this.client.defaultAccountId = previous.actingAccount.id;
+        if ( this.usesDefaultClient() ) {
+          AlLocatorService.setContext( {
+              insightLocationId: this.sessionData.boundLocationId,
+              accessible: previous.actingAccount.accessible_locations
+          } );
+        }
+        this.persistSession();
+        this.resolutionGuard.resolve( true );
+        this.notifyStream.trigger( new AlActingAccountResolutionFailedEvent( account, error, "rollback", this ) );
+        this.notifyStream.trigger( new AlActingAccountChangedEvent( account, previous.actingAccount, this ) );
+        this.notifyStream.trigger( previous );
+        return Promise.reject( error );
+      }
+      const degraded = new AlActingAccountResolvedEvent( account, new AlEntitlementCollection(), new AlEntitlementCollection(), new AlExperienceTree() );
+      degraded.error = error;
+      this.describeResolutionChanges( degraded );
+      if ( ! this.resolvedAccount.error ) {
+        this.lastSuccessfulResolution = this.resolvedAccount;
+      }
+      this.resolvedAccount = degraded;
+      this.resolutionGuard.resolve( true );
+      this.notifyStream.trigger( new AlActingAccountResolutionFailedEvent( account, error, "degrade", this ) );
+      this.notifyStream.trigger( degraded );
+      return Promise.resolve( degraded );
+    }
+
+    /**
+     * Applies the user's locally saved experience selections and any developer overrides to a freshly resolved account, remembering the
+     * unmodified resolution so that overrides can be changed later without resolving the account again, and describes what changed.
+     */
+    protected prepareResolution( resolved:AlActingAccountResolvedEvent ) {
+      this.resolutionBaseline = new AlActingAccountResolvedEvent( resolved.actingAccount,
+                                                                  resolved.entitlements,
+                                                                  resolved.primaryEntitlements,
+                                                                  new AlExperienceTree( JSON.parse( JSON.stringify( resolved.experiences ) ) ) );
+      this.resolutionBaseline.roles = resolved.roles;
+      this.resolutionBaseline.permissions = resolved.permissions;
+      AlExperiencePreferences.apply( resolved.experiences, this.experiencePreferences.get( this.getUserId(), resolved.actingAccount.id ) );
+      const overrides = this.developerOverrides.get();
+      if ( overrides ) {
+        console.warn( "Notice: developer overrides are in effect for this session", overrides );
+        resolved.entitlements = AlDeveloperOverrideStore.applyEntitlements( resolved.entitlements, overrides );
+        resolved.primaryEntitlements = AlDeveloperOverrideStore.applyEntitlements( resolved.primaryEntitlements, overrides );
+        AlDeveloperOverrideStore.applyExperiences( resolved.experiences, overrides );
+        resolved.overridden = true;
+      }
+      this.describeResolutionChanges( resolved );
+    }
+
+    /**
+     * Attaches the differences from the previously resolved account to a resolution that is about to be published.  Degraded resolutions
+     * are skipped over, so that recovering from one doesn't report everything as gained.
+     */
+    protected describeResolutionChanges( resolved:AlActingAccountResolvedEvent ) {
+      const datacenter = this.getActiveDatacenter();
+      const previous = this.resolvedAccount.error ? this.lastSuccessfulResolution : this.resolvedAccount;
+      resolved.diff = AlResolutionDiff.compute( previous, resolved, this.resolvedDatacenter, datacenter );
+      if ( ! resolved.error ) {
+        this.resolvedDatacenter = datacenter;
+      }
+    }
+
+    /**
+     * Retrieves experience selections saved via conduit (if `experiencePreferencesConduit` is set), applies them -- emitting
+     * AlExperienceChangedEvent for each change -- and saves them locally.  Selections arriving after the acting account has changed again are ignored.
+     */
+    protected loadSharedExperiencePreferences( resolved:AlActingAccountResolvedEvent ) {
+      const conduit = this.options.experiencePreferencesConduit;
+      if ( ! conduit ) {
+        return;
+      }
+      const userId = this.getUserId();
+      const accountId = resolved.actingAccount.id;
+      conduit.getGlobalSetting( AlExperiencePreferences.getKey( userId, accountId ) )
+        .then( selections => {
+          if ( this.resolvedAccount !== resolved || ! selections || typeof( selections ) !== 'object' ) {
+            return;
+          }
+          this.experiencePreferences.replace( userId, accountId, Object.assign( this.experiencePreferences.get( userId, accountId ), selections ) );
+          AlExperiencePreferences.apply( resolved.experiences, selections ).forEach( change => {
+            this.notifyStream.trigger( new AlExperienceChangedEvent( change.path, selections[change.path], change.previous, this ) );
+          } );
+        } )
+        .catch( error => console.warn( "Failed to retrieve experience preferences from conduit", error ) );
+    }
+
+    /**
+     * Chooses the datacenter to bind to for a given acting account: the currently bound one if the account can access it, or else the account's default.
+     */
+    protected selectDatacenter( account:AIMSAccount ):string {
+      return account.accessible_locations.indexOf( this.sessionData.boundLocationId ) !== -1
+        ? this.sessionData.boundLocationId
+        : account.default_location;
+    }
+
+    protected async resolveActingAccountConsolidated( account:AIMSAccount, changeId:number = this.actingAccountChangeId, revalidating:boolean = false ) {
+      try {
+        let metadata = await this.fetchConsolidatedMetadata( account.id );
+        this.assertCurrentActingAccountChange( changeId, account.id, this.actingAccountChangeId, revalidating );
+        this.primeFromConsolidatedMetadata( metadata );
+        const resolved = await this.buildConsolidatedResolution( metadata );
+        this.assertCurrentActingAccountChange( changeId, account.id, this.actingAccountChangeId, revalidating );
+        return this.publishResolution( resolved );
+      } catch( e ) {
+        if ( e instanceof AlActingAccountChangeCancelledError ) {
+          throw e;
+        }
+        this.assertCurrentActingAccountChange( changeId, account.id, this.actingAccountChangeId, revalidating );
+        console.warn("Failed to retrieve consolidated account metadata: falling back to default resolution method.", e );
+        return this.resolveActingAccount( account, changeId, revalidating );
+      }
+    }
+
+    protected fetchConsolidatedMetadata( accountId:string ):Promise<AlConsolidatedAccountMetadata> {
       let request = {
         service_stack: AlLocation.GestaltAPI,
         service_name: undefined,
         version: undefined,
-          path: `/account/v1/${account.id}/metadata`,
+        path: `/account/v1/${accountId}/metadata`,
         retry_count: 3,
         retry_interval: 1000
       };
-      try {
-        let metadata = await ALClient.get( request ) as AlConsolidatedAccountMetadata;
-        let experiences = new AlExperienceTree( metadata.experiences );
-        const resolved = new AlActingAccountResolvedEvent(
-          metadata.actingAccount,
-          AlEntitlementCollection.import( metadata.effectiveEntitlements ),
-          AlEntitlementCollection.import( metadata.primaryEntitlements ),
-          experiences
-        );
-        this.resolvedAccount = resolved;
-        this.resolutionGuard.resolve( true );
-        this.notifyStream.trigger( this.resolvedAccount );
-        return this.resolvedAccount;
-      } catch( e ) {
-        console.warn("Failed to retrieve consolidated account metadata: falling back to default resolution method.", e );
-        return this.resolveActingAccount( account );
+      return this.shareResolutionRequest( `metadata:${accountId}`, async () => {
+        const metadata = await this.client.get( request ) as AlConsolidatedAccountMetadata;
+        this.validateSchema( metadata, AlSessionSchemas.consolidatedMetadata, "consolidated account metadata" );
+        return metadata;
+      } );
+    }
+
+    /**
+     * Builds a resolution from consolidated account metadata, retrieving roles and permissions separately if they were not included and
+     * `resolvePermissions` is enabled.
+     */
+    protected async buildConsolidatedResolution( metadata:AlConsolidatedAccountMetadata ):Promise<AlActingAccountResolvedEvent> {
+      let experiences = new AlExperienceTree( metadata.experiences );
+      const resolved = new AlActingAccountResolvedEvent(
+        metadata.actingAccount,
+        AlEntitlementCollection.import( metadata.effectiveEntitlements ),
+        AlEntitlementCollection.import( metadata.primaryEntitlements ),
+        experiences
+      );
+      if ( metadata.permissions ) {
+        resolved.roles = metadata.roles || [];
+        resolved.permissions = AlPermissionSet.import( metadata.permissions );
+      } else if ( this.options.resolvePermissions ) {
+        const permissions = await this.resolvePermissions( metadata.actingAccount.id );
+        resolved.roles = permissions.roles;
+        resolved.permissions = permissions.permissions;
       }
+      return resolved;
     }
 
     /**
-     * This is a vastly simplified version of the json schema validator provided by AJV.  It isn't as thorough -- it doesn't descend into the 3rd tier of data structures
-     * or lower -- but it should be sufficient to validate that the right entities are being provided, and not require so many extraneous packages.
+     * Puts the rest of the consolidated metadata to use, so that a single request primes the session:
+     *    - endpoints data is merged into the API client's endpoints cache for the acting account
+     *    - managed accounts seed the managed account hierarchy cache (unless more than one level of the hierarchy is to be loaded)
+     *    - the user and primary account refresh the stored session, provided they are the same entities
      */
-    protected validateSessionDescriptor( descriptor:any ):void {
-      const requireProps = ( target:any, properties:{[propName:string]:string}, jsonPath:string = '.' ) => {
-        Object.entries( properties ).forEach( ( [ propName, propType ] ) => {
-          if ( ! target.hasOwnProperty( propName ) || typeof( target[propName] ) !== propType ) {
-            throw new AlResponseValidationError( `The provided data does not match the schema for a session descriptor: ${jsonPath}.${propName} is missing or of the wrong type.` );
-          }
+    protected primeFromConsolidatedMetadata( metadata:AlConsolidatedAccountMetadata ) {
+      const actingAccount = metadata.actingAccount;
+      if ( metadata.endpointsData && typeof( metadata.endpointsData ) === 'object' ) {
+        const cacheKey = `/endpoints/${AlLocatorService.getCurrentEnvironment()}/${actingAccount.id}`;
+        const cached = this.client.getCachedData()[cacheKey];
+        const endpoints = Object.assign( {}, cached ? cached.value : {} );
+        Object.entries<string>( metadata.endpointsData ).forEach( ( [ serviceName, host ] ) => {
+          endpoints[serviceName] = host.indexOf( "http" ) === 0 ? host : `https://${host}`;
         } );
-      };
-      if ( ! descriptor || ! descriptor.authentication ) {
-        throw new AlResponseValidationError("The provided data does not match the schema for a session descriptor" );
-      }
-      requireProps( descriptor.authentication, { 'token': 'string', 'token_expiration': 'number', 'user': 'object', 'account': 'object' }, '.authentication' );
-      requireProps( descriptor.authentication.user,
-                    {
-                      "id": "string",
-                      "name": "string",
-                      "email": "string",
-                      "linked_users": "object",
-                      "created": "object",
-                      "modified": "object"
-                    },
-                    '.authentication.user' );
-      requireProps( descriptor.authentication.account,
-                    {
-                      "id": "string",
-                      "name": "string",
-                      "accessible_locations": "object",
-                      "default_location": "string",
-                      "created": "object",
-                      "modified": "object"
-                    },
-                    '.authentication.account' );
+        this.client.mergeCacheData( { [cacheKey]: { expires: Date.now() + this.options.endpointsCacheTTL * 1000, value: endpoints } } );
+      }
+      if ( Array.isArray( metadata.managedAccounts ) && this.options.managedAccountsDepth <= 1 ) {
+        const hierarchy = new AlManagedAccountHierarchy( actingAccount );
+        metadata.managedAccounts.forEach( managedAccount => hierarchy.add( managedAccount, actingAccount.id ) );
+        this.managedAccountHierarchy = Promise.resolve( hierarchy );
+        this.managedAccountHierarchyExpiration = this.getCurrentTimestamp() + this.options.managedAccountsCacheTTL;
+      }
+      const authentication = this.sessionData.authentication;
+      let refreshed = false;
+      if ( metadata.user && metadata.user.id === authentication.user.id ) {
+        authentication.user = metadata.user;
+        refreshed = true;
+      }
+      if ( metadata.primaryAccount && metadata.primaryAccount.id === authentication.account.id ) {
+        authentication.account = metadata.primaryAccount;
+        refreshed = true;
+      }
+      if ( refreshed ) {
+        this.persistSession();
+      }
+    }
+
+    /**
+     * Validates a session descriptor in its entirety (see AlSessionSchemas), according to `validationMode`.
+     */
+    protected validateSessionDescriptor( descriptor:any ):void {
+      this.validateSchema( descriptor, AlSessionSchemas.sessionDescriptor, "a session descriptor" );
     }
 }
 
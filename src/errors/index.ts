@@ -0,0 +1,49 @@
+import { AlBaseError } from '@al/common';
+
+/**
+ * AlActingAccountChangeCancelledError is the rejection received by a `setActingAccount` caller whose change was superseded by a later change
+ * of acting account, or by the end of the session, before it completed.
+ */
+export class AlActingAccountChangeCancelledError extends AlBaseError
+{
+    constructor( public requestedAccountId:string ) {
+        super( `The change of acting account to '${requestedAccountId}' was superseded before it completed` );
+    }
+}
+
+/**
+ * AlActingAccountChangeVetoedError is the rejection received by a `setActingAccount` caller whose change was vetoed by a before-change hook.
+ */
+export class AlActingAccountChangeVetoedError extends AlBaseError
+{
+    constructor( public requestedAccountId:string,
+                 public reason:string ) {
+        super( `The change of acting account to '${requestedAccountId}' was vetoed: ${reason}` );
+    }
+}
+
+/**
+ * AlSessionExpressionError is thrown when an entitlement/experience expression can't be parsed.  `position` is the zero-based offset of the
+ * problem within `expression`.
+ */
+export class AlSessionExpressionError extends AlBaseError
+{
+    constructor( public expression:string,
+                 public position:number,
+                 public problem:string ) {
+        super( `Invalid expression "${expression}" at position ${position}: ${problem}` );
+    }
+}
+
+/**
+ * AlExperienceSelectionError is thrown when an experience can't be selected, either because there is no experience at the given path or
+ * because the requested value isn't one of its `available` options.
+ */
+export class AlExperienceSelectionError extends AlBaseError
+{
+    constructor( public path:string,
+                 public value:string,
+                 public problem:string ) {
+        super( `Cannot select experience '${value}' at '${path}': ${problem}` );
+    }
+}
@@ -1,8 +1,12 @@
 import { AlTrigger, AlTriggeredEvent } from '@al/common';
 import { AIMSUser, AIMSAccount } from '@al/client';
+import { AIMSRole } from '@al/aims';
 import { AlEntitlementCollection } from '@al/subscriptions';
 import { AlSessionInstance } from '../al-session';
 import { AlExperienceTree } from '../types/al-experience.types';
+import { AlDeveloperOverrides, AlActingAccountResolutionDiff, AlSessionEndReason, AlResolutionFailureMode } from '../types/al-session.types';
+import { AlPermissionSet } from '../utilities/al-permission-set';
+import { AlSessionEncryptionScope } from '../utilities/al-session-cipher';
 
 /**
  * AlSessionStartedEvent is broadcast by an AlSessionInstance whenever a new session is created by a successful authentication.
@@ -17,12 +21,13 @@ export class AlSessionStartedEvent extends AlTriggeredEvent<void>
 }
 
 /**
- * AlSessionEndedEvent is broadcast by an AlSessionInstance whenever an existing session is destroyed.
+ * AlSessionEndedEvent is broadcast by an AlSessionInstance whenever an existing session is destroyed.  `reason` explains why.
  */
 @AlTrigger( 'AlSessionEnded' )
 export class AlSessionEndedEvent extends AlTriggeredEvent<void>
 {
-    constructor( public session:AlSessionInstance ) {
+    constructor( public session:AlSessionInstance,
+                 public reason:AlSessionEndReason = "logout" ) {
         super();
     }
 }
@@ -50,6 +55,35 @@ export class AlActingAccountChangedEvent extends AlTriggeredEvent<void>
 @AlTrigger( 'AlActingAccountResolved' )
 export class AlActingAccountResolvedEvent extends AlTriggeredEvent<void>
 {
+    /**
+     * If resolution failed and the session is running in a degraded state (see `AlSessionOptions.resolutionFailureMode`), this holds the
+     * error; the entitlements and experiences will be empty.
+     */
+    public error:Error = null;
+
+    /**
+     * Indicates that developer overrides were applied to the entitlements and/or experiences.  See `AlSessionInstance.setDeveloperOverrides()`.
+     */
+    public overridden:boolean = false;
+
+    /**
+     * What changed since the previously resolved acting account (see AlResolutionDiff).  After a session starts, everything is reported as gained.
+     * Degraded resolutions (see `error`) are described relative to the last successful resolution, and so is the resolution that follows them.
+     */
+    public diff:AlActingAccountResolutionDiff = null;
+
+    /**
+     * Indicates that this resolution was served from the resolution cache, and is being revalidated.  See `AlSessionOptions.resolutionCacheTTL`.
+     */
+    public cached:boolean = false;
+
+    /**
+     * The roles assigned to the user, and their effective permissions for the acting account.  These are only populated if
+     * `AlSessionOptions.resolvePermissions` is enabled (or the consolidated resolver provides them).
+     */
+    public roles:AIMSRole[] = [];
+    public permissions:AlPermissionSet = new AlPermissionSet();
+
     constructor( public actingAccount:AIMSAccount,
                  public entitlements:AlEntitlementCollection,
                  public primaryEntitlements:AlEntitlementCollection,
@@ -81,3 +115,201 @@ export class AlDatacenterSessionEstablishedEvent extends AlTriggeredEvent<void>
         super();
     }
 }
+
+/**
+ * AlSessionTokenRefreshedEvent is broadcast by an AlSessionInstance whenever its AIMS token has been proactively renewed.
+ */
+@AlTrigger( 'AlSessionTokenRefreshed' )
+export class AlSessionTokenRefreshedEvent extends AlTriggeredEvent<void>
+{
+    constructor( public token:string,
+                 public tokenExpiration:number,
+                 public session:AlSessionInstance ) {
+        super();
+    }
+}
+
+/**
+ * AlSessionTokenRefreshFailedEvent is broadcast by an AlSessionInstance whenever an attempt to renew its AIMS token fails.  The existing
+ * token remains in effect until it expires.
+ */
+@AlTrigger( 'AlSessionTokenRefreshFailed' )
+export class AlSessionTokenRefreshFailedEvent extends AlTriggeredEvent<void>
+{
+    constructor( public error:any,
+                 public session:AlSessionInstance ) {
+        super();
+    }
+}
+
+/**
+ * AlSessionExpiringEvent is broadcast by an AlSessionInstance's idle monitor while the session is about to end, either because the user has been
+ * inactive or because its token is about to expire.  It is emitted repeatedly (once per idle check) until the session is extended or ends.
+ */
+@AlTrigger( 'AlSessionExpiring' )
+export class AlSessionExpiringEvent extends AlTriggeredEvent<void>
+{
+    constructor( public secondsRemaining:number,
+                 public reason:"idle"|"token",
+                 public session:AlSessionInstance ) {
+        super();
+    }
+}
+
+/**
+ * AlSessionIdleEvent is broadcast by an AlSessionInstance's idle monitor when the user has been inactive for the configured idle threshold.
+ */
+@AlTrigger( 'AlSessionIdle' )
+export class AlSessionIdleEvent extends AlTriggeredEvent<void>
+{
+    constructor( public idleSeconds:number,
+                 public session:AlSessionInstance ) {
+        super();
+    }
+}
+
+/**
+ * AlSessionActivityEvent is broadcast by an AlSessionInstance's idle monitor when it observes user activity, at most once every
+ * `AlSessionIdleMonitor.activityNotificationInterval` seconds.  `timestamp` is in milliseconds.
+ */
+@AlTrigger( 'AlSessionActivity' )
+export class AlSessionActivityEvent extends AlTriggeredEvent<void>
+{
+    constructor( public timestamp:number,
+                 public session:AlSessionInstance ) {
+        super();
+    }
+}
+
+/**
+ * AlSessionEncryptionUnavailableEvent is broadcast by an AlSessionInstance when persistence encryption is requested (see `encryptPersistence`)
+ * but the environment doesn't support it, so the session is kept in memory only and won't survive a reload.
+ */
+@AlTrigger( 'AlSessionEncryptionUnavailable' )
+export class AlSessionEncryptionUnavailableEvent extends AlTriggeredEvent<void>
+{
+    constructor( public scope:AlSessionEncryptionScope,
+                 public session:AlSessionInstance ) {
+        super();
+    }
+}
+
+/**
+ * AlSessionRehydrationFailedEvent is broadcast by an AlSessionInstance when a persisted session is discarded instead of being reinstated.
+ * `reason` is one of "tampered" (the encrypted session failed its integrity check), "unencrypted" (a plaintext session was found while
+ * encryption is required), "unsupported" (its format version can't be migrated), or "invalid" (the session data was rejected).  A session
+ * encrypted with a key that isn't available (such as another tab's) is neither reinstated nor discarded.
+ */
+@AlTrigger( 'AlSessionRehydrationFailed' )
+export class AlSessionRehydrationFailedEvent extends AlTriggeredEvent<void>
+{
+    constructor( public reason:string,
+                 public error:Error,
+                 public session:AlSessionInstance ) {
+        super();
+    }
+}
+
+/**
+ * AlImpersonationStartedEvent is broadcast by an AlSessionInstance when an operator steps into another user's identity via `impersonate()`.
+ * `depth` is the number of identities stacked beneath the impersonated one.
+ */
+@AlTrigger( 'AlImpersonationStarted' )
+export class AlImpersonationStartedEvent extends AlTriggeredEvent<void>
+{
+    constructor( public impersonatedUser:AIMSUser,
+                 public originalUser:AIMSUser,
+                 public depth:number,
+                 public session:AlSessionInstance ) {
+        super();
+    }
+}
+
+/**
+ * AlImpersonationEndedEvent is broadcast by an AlSessionInstance when `restoreIdentity()` returns to the previous identity.  `depth` is the
+ * number of identities still stacked; zero means the operator is back in their own session.
+ */
+@AlTrigger( 'AlImpersonationEnded' )
+export class AlImpersonationEndedEvent extends AlTriggeredEvent<void>
+{
+    constructor( public impersonatedUser:AIMSUser,
+                 public restoredUser:AIMSUser,
+                 public depth:number,
+                 public session:AlSessionInstance ) {
+        super();
+    }
+}
+
+/**
+ * AlActingAccountChangeCancelledEvent is broadcast by an AlSessionInstance when a pending change of acting account is abandoned because a later
+ * change (or the end of the session) superseded it.  Its results are discarded, and the superseded `setActingAccount` call rejects with an
+ * AlActingAccountChangeCancelledError.
+ */
+@AlTrigger( 'AlActingAccountChangeCancelled' )
+export class AlActingAccountChangeCancelledEvent extends AlTriggeredEvent<void>
+{
+    constructor( public requestedAccountId:string,
+                 public session:AlSessionInstance ) {
+        super();
+    }
+}
+
+/**
+ * AlActingAccountChangeVetoedEvent is broadcast by an AlSessionInstance when a before-change hook vetoes a change of acting account.  The acting
+ * account, default account ID and bound datacenter are left untouched.
+ */
+@AlTrigger( 'AlActingAccountChangeVetoed' )
+export class AlActingAccountChangeVetoedEvent extends AlTriggeredEvent<void>
+{
+    constructor( public actingAccount:AIMSAccount,
+                 public requestedAccount:AIMSAccount,
+                 public reason:string,
+                 public session:AlSessionInstance ) {
+        super();
+    }
+}
+
+/**
+ * AlActingAccountResolutionFailedEvent is broadcast by an AlSessionInstance when the acting account's metadata couldn't be retrieved, even after
+ * retrying.  `outcome` indicates how the session recovered: "degrade" means the requested account is in effect with empty entitlements, while
+ * "rollback" means the previously resolved acting account was restored.
+ */
+@AlTrigger( 'AlActingAccountResolutionFailed' )
+export class AlActingAccountResolutionFailedEvent extends AlTriggeredEvent<void>
+{
+    constructor( public requestedAccount:AIMSAccount,
+                 public error:Error,
+                 public outcome:AlResolutionFailureMode,
+                 public session:AlSessionInstance ) {
+        super();
+    }
+}
+
+/**
+ * AlExperienceChangedEvent is broadcast by an AlSessionInstance when the experience selected at a given path of the experience tree changes,
+ * either through `selectExperience` or because a saved preference was applied.  `path` is empty for the root of the tree.
+ */
+@AlTrigger( 'AlExperienceChanged' )
+export class AlExperienceChangedEvent extends AlTriggeredEvent<void>
+{
+    constructor( public path:string,
+                 public selected:string,
+                 public previous:string,
+                 public session:AlSessionInstance ) {
+        super();
+    }
+}
+
+/**
+ * AlDeveloperOverridesChangedEvent is broadcast by an AlSessionInstance when developer overrides are set or cleared.  `active` indicates whether
+ * any overrides are now in effect.
+ */
+@AlTrigger( 'AlDeveloperOverridesChanged' )
+export class AlDeveloperOverridesChangedEvent extends AlTriggeredEvent<void>
+{
+    constructor( public active:boolean,
+                 public overrides:AlDeveloperOverrides|null,
+                 public session:AlSessionInstance ) {
+        super();
+    }
+}
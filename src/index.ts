@@ -1,8 +1,13 @@
 export * from './types';
 export * from './events';
+export * from './errors';
 export * from './utilities';
 export {
     AlSessionInstance,
     AlSession,
     AlSession as ALSession       /* deprecated */
 } from './al-session';
+export {
+    AlSessionRegistryInstance,
+    AlSessionRegistry
+} from './al-session-registry';
@@ -0,0 +1,188 @@
+import { AIMSAuthentication, AIMSAccount } from '@al/client';
+import { AlActingAccountResolvedEvent } from '../events';
+import { AlExperienceNode } from './al-experience.types';
+
+/**
+ * Describes a renewed AIMS token, as produced by an AlSessionTokenRefresher.
+ */
+export interface AlSessionTokenInfo {
+    token:string;
+    token_expiration:number;
+}
+
+/**
+ * An AlSessionTokenRefresher is responsible for obtaining a fresh AIMS token for an existing session.  AlSessionInstance will invoke
+ * its `refresh` method shortly before the current token expires (see `AlSessionOptions.tokenRefreshLeadTime`).
+ */
+export interface AlSessionTokenRefresher {
+    refresh( authentication:AIMSAuthentication ):Promise<AlSessionTokenInfo>;
+}
+
+/**
+ * Why a session ended: "logout" (it was ended deliberately, here or in another tab), "idle" (inactivity), "expired" (its token expired), or
+ * "invalid" (it could not be reinstated).
+ */
+export type AlSessionEndReason = "logout"|"idle"|"expired"|"invalid";
+
+/**
+ * An AlActivitySource reports user activity to an idle monitor.  `start` should invoke `onActivity` whenever the user does something
+ * that should be regarded as "not idle"; `stop` should release any listeners.
+ */
+export interface AlActivitySource {
+    start( onActivity:() => void ):void;
+    stop():void;
+}
+
+/**
+ * Configures idle tracking for an AlSessionInstance.  All durations are in seconds.
+ */
+export interface AlSessionIdleOptions {
+    /**
+     * The period of inactivity after which the session will be ended.
+     */
+    idleTimeout:number;
+
+    /**
+     * The period of inactivity after which an AlSessionIdleEvent is emitted.  Defaults to the point at which expiration warnings begin.
+     */
+    idleThreshold?:number;
+
+    /**
+     * How long before the session ends (either through inactivity or token expiration) AlSessionExpiringEvents begin to be emitted.  Defaults to 60.
+     */
+    warningThreshold?:number;
+
+    /**
+     * The source of user activity.  Defaults to an AlDomActivitySource watching the current document.
+     */
+    activitySource?:AlActivitySource;
+
+    /**
+     * How often idle state is evaluated.  Defaults to 1.
+     */
+    checkInterval?:number;
+}
+
+/**
+ * AlSessionStorage describes the persistence backend used by an AlSessionInstance.  AlCabinet satisfies this interface, as do the
+ * adapters exported from `utilities/al-session-storage`.
+ */
+export interface AlSessionStorage {
+    get( property:string, defaultValue?:any ):any;
+    set( property:string, value:any ):any;
+    delete( property:string ):any;
+    destroy():void;
+}
+
+/**
+ * An entry in a user's history of recently used acting accounts.  `lastUsed` is a millisecond timestamp.
+ */
+export interface AlRecentActingAccount {
+    account:AIMSAccount;
+    lastUsed:number;
+    pinned:boolean;
+}
+
+/**
+ * Describes a proposed change of acting account, as presented to an AlActingAccountChangeHook.
+ */
+export interface AlActingAccountChangeProposal {
+    from:AIMSAccount;
+    to:AIMSAccount;
+}
+
+/**
+ * A hook that runs before `setActingAccount` commits a change.  It may defer the change by returning a promise, and may veto it by returning
+ * (or resolving with) `false`, or by throwing (or rejecting), in which case the error's message is reported as the reason.
+ */
+export type AlActingAccountChangeHook = ( proposal:AlActingAccountChangeProposal ) => boolean|void|Promise<boolean|void>;
+
+/**
+ * Describes how failed requests are retried.  Delays are in seconds, and grow by a factor of `backoff` after each attempt.
+ */
+export interface AlSessionRetryPolicy {
+    /**
+     * The total number of attempts, including the first.  Defaults to 3.
+     */
+    attempts?:number;
+
+    /**
+     * How long to wait before the first retry.  Defaults to 1.
+     */
+    delay?:number;
+
+    /**
+     * The factor by which the delay grows after each retry.  Defaults to 2.
+     */
+    backoff?:number;
+
+    /**
+     * The longest delay between attempts.  Defaults to 30.
+     */
+    maxDelay?:number;
+}
+
+/**
+ * How an AlSessionInstance recovers when the acting account can't be resolved (see `AlSessionOptions.resolutionFailureMode`).
+ */
+export type AlResolutionFailureMode = "degrade"|"rollback";
+
+/**
+ * Options for `AlSessionInstance.resolvedWithin()`.
+ */
+export interface AlSessionResolutionOptions {
+    /**
+     * How many seconds to wait for resolution before giving up.  If omitted, there is no time limit.
+     */
+    timeout?:number;
+
+    /**
+     * A signal that abandons the wait when aborted.
+     */
+    signal?:AbortSignal;
+}
+
+/**
+ * The outcome of `AlSessionInstance.resolvedWithin()`.  "failed" means the acting account couldn't be resolved and the session is running in
+ * a degraded state (see `AlSessionOptions.resolutionFailureMode`).
+ */
+export type AlSessionResolutionResult =
+    { status:"resolved", resolved:AlActingAccountResolvedEvent } |
+    { status:"failed", resolved:AlActingAccountResolvedEvent, error:Error } |
+    { status:"unauthenticated" } |
+    { status:"timeout" } |
+    { status:"aborted" };
+
+/**
+ * The outcome of a bounded getter, such as `AlSessionInstance.getEffectiveEntitlementsWithin()`: the outcome of waiting for resolution,
+ * along with the requested `value` if the acting account was resolved (or failed to resolve, leaving the session degraded).
+ */
+export type AlSessionBoundedResult<ValueType> = AlSessionResolutionResult & { value?:ValueType };
+
+/**
+ * Developer overrides layered on top of the resolved acting account, for previewing gated features locally.  Granted and revoked entitlements
+ * apply to both the acting and primary accounts' entitlements.  Experience overrides are keyed by dot-separated path: a string selects that
+ * experience (adding it to `available` if necessary), while a node replaces whatever is at that path.
+ */
+export interface AlDeveloperOverrides {
+    grantEntitlements?:string[];
+    revokeEntitlements?:string[];
+    experiences?:{[path:string]:string|AlExperienceNode};
+}
+
+/**
+ * What changed between two successive acting account resolutions; see `AlActingAccountResolvedEvent.diff`.  Entitlement lists contain
+ * active entitlement keys.  Experience changes are reported for every selectable node (one with `available` options) whose selection differs.
+ */
+export interface AlActingAccountResolutionDiff {
+    previousAccount:AIMSAccount|null;
+    accountChanged:boolean;
+    entitlementsGained:string[];
+    entitlementsLost:string[];
+    primaryEntitlementsGained:string[];
+    primaryEntitlementsLost:string[];
+    experiencesChanged:{path:string,previous:string|null,selected:string|null}[];
+    previousDatacenter:string|null;
+    datacenter:string|null;
+    datacenterChanged:boolean;
+}
@@ -1,5 +1,5 @@
 import { AlEndpointsServiceCollection } from '@al/client';
-import { AIMSAccount, AIMSUser } from '@al/aims';
+import { AIMSAccount, AIMSUser, AIMSRole } from '@al/aims';
 import { AlEntitlementRecord } from '@al/subscriptions';
 import { AlExperienceNode } from './al-experience.types';
 
@@ -12,6 +12,9 @@ export interface AlConsolidatedAccountMetadata {
     effectiveEntitlements:AlEntitlementRecord[];
     experiences:AlExperienceNode;
     endpointsData:AlEndpointsServiceCollection;
+    roles?:AIMSRole[];
+    permissions?:{[pattern:string]:string};
 }
 
 export * from './al-experience.types';
+export * from './al-session.types';
@@ -0,0 +1,93 @@
+import { AIMSAccount } from '@al/client';
+import { AlSessionStorage, AlRecentActingAccount } from '../types';
+
+/**
+ * Maintains a most-recently-used list of acting accounts for each user.  Pinned accounts are listed first and are never evicted;
+ * beyond those, only the `limit` most recently used accounts are kept.
+ */
+export class AlActingAccountHistory
+{
+    constructor( protected storage:AlSessionStorage,
+                 public limit:number = 10 ) {
+    }
+
+    /**
+     * Lists a user's recent acting accounts: pinned accounts first, then the rest, each group ordered from most to least recently used.
+     */
+    public list( userId:string ):AlRecentActingAccount[] {
+        const entries = this.load( userId );
+        return entries.filter( entry => entry.pinned ).concat( entries.filter( entry => ! entry.pinned ) );
+    }
+
+    /**
+     * Moves an account to the front of a user's history, adding it if necessary.
+     */
+    public record( userId:string, account:AIMSAccount ) {
+        const entries = this.load( userId );
+        const existing = entries.find( entry => entry.account.id === account.id );
+        const remaining = entries.filter( entry => entry !== existing );
+        remaining.unshift( { account, lastUsed: Date.now(), pinned: existing ? existing.pinned : false } );
+        this.save( userId, remaining );
+    }
+
+    /**
+     * Pins an account so that it stays at the top of the user's history.  An account that isn't already in the history must be provided
+     * as a complete record.
+     *
+     * @returns true if the account is now pinned.
+     */
+    public pin( userId:string, account:string|AIMSAccount ):boolean {
+        const accountId = typeof( account ) === 'string' ? account : account.id;
+        const entries = this.load( userId );
+        const existing = entries.find( entry => entry.account.id === accountId );
+        if ( existing ) {
+            existing.pinned = true;
+        } else if ( typeof( account ) === 'string' ) {
+            return false;
+        } else {
+            entries.push( { account, lastUsed: 0, pinned: true } );
+        }
+        this.save( userId, entries );
+        return true;
+    }
+
+    /**
+     * Unpins an account, leaving it in the history as an ordinary entry.
+     *
+     * @returns true if the account was pinned.
+     */
+    public unpin( userId:string, accountId:string ):boolean {
+        const entries = this.load( userId );
+        const existing = entries.find( entry => entry.account.id === accountId && entry.pinned );
+        if ( ! existing ) {
+            return false;
+        }
+        existing.pinned = false;
+        this.save( userId, entries );
+        return true;
+    }
+
+    public clear( userId:string ) {
+        this.storage.delete( this.getKey( userId ) );
+    }
+
+    protected load( userId:string ):AlRecentActingAccount[] {
+        const entries = this.storage.get( this.getKey( userId ), [] );
+        if ( ! Array.isArray( entries ) ) {
+            return [];
+        }
+        return entries.filter( entry => entry && entry.account && typeof( entry.account.id ) === 'string' )
+                      .sort( ( a, b ) => b.lastUsed - a.lastUsed );
+    }
+
+    protected save( userId:string, entries:AlRecentActingAccount[] ) {
+        let unpinned = 0;
+        const retained = entries.sort( ( a, b ) => b.lastUsed - a.lastUsed )
+                                .filter( entry => entry.pinned || ++unpinned <= this.limit );
+        this.storage.set( this.getKey( userId ), retained );
+    }
+
+    protected getKey( userId:string ):string {
+        return `recent_accounts.${userId}`;
+    }
+}
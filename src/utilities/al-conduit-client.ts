@@ -5,6 +5,7 @@ import {
 } from '@al/common';
 import { AIMSSessionDescriptor } from '@al/aims';
 import { AlDatacenterSessionEstablishedEvent } from '../events';
+import { AlSessionEnvironment } from './al-session-environment';
 
 export class AlConduitClient
 {
@@ -24,7 +25,11 @@ export class AlConduitClient
     constructor() {
     }
 
-    public start( targetDocument:Document = document ) {
+    public start( targetDocument:Document = ( typeof( document ) !== 'undefined' ? document : null ) ) {
+        if ( ! targetDocument && AlSessionEnvironment.isHeadless() ) {
+            console.warn( "Notice: conduit is not available in a headless environment and will not be started." );
+            return;
+        }
         if ( AlConduitClient.refCount < 1 ) {
             AlConduitClient.document = targetDocument;
             if ( targetDocument && targetDocument.body && typeof( targetDocument.body.appendChild ) === 'function' ) {
@@ -258,6 +263,9 @@ export class AlConduitClient
     }
 
     protected request( methodName: string, data: any = {}, timeout:number = 0 ): Promise<any> {
+        if ( AlSessionEnvironment.isHeadless() ) {
+            return Promise.reject( new Error( `Conduit is not available in a headless environment; cannot execute '${methodName}'` ) );
+        }
         const requestId = `conduit-request-${++AlConduitClient.requestIndex}-${Math.floor(Math.random() * 1000)}`;
         return new Promise<any>( ( resolve, reject ) => {
             AlConduitClient.requests[requestId] = { resolve, reject, canceled: false };
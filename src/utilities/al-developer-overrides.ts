@@ -0,0 +1,118 @@
+import { getJsonPath, setJsonPath } from '@al/common';
+import { AlEntitlementCollection, AlEntitlementRecord } from '@al/subscriptions';
+import { AlSessionStorage, AlDeveloperOverrides } from '../types';
+import { AlExperienceTree } from '../types/al-experience.types';
+
+/**
+ * Stores the developer overrides in effect for this browser, and applies them to entitlement collections and experience trees.
+ *
+ * Overrides can also be expressed compactly -- e.g., in the `al_overrides` query string parameter -- as a comma-separated list of
+ * `+entitlement`, `-entitlement` and `experience:path=value` entries, such as `+tmc,-lm_essentials,experience:navigation=beta`.
+ */
+export class AlDeveloperOverrideStore
+{
+    /**
+     * The query string parameter that sets overrides; `al_overrides=clear` removes them.
+     */
+    public static queryParameter = "al_overrides";
+
+    constructor( protected storage:AlSessionStorage ) {
+    }
+
+    /**
+     * Parses the compact representation of a set of overrides.
+     */
+    public static parse( text:string ):AlDeveloperOverrides {
+        const overrides:AlDeveloperOverrides = { grantEntitlements: [], revokeEntitlements: [], experiences: {} };
+        ( text || '' ).split( "," ).map( entry => entry.trim() ).filter( entry => entry.length > 0 ).forEach( entry => {
+            if ( entry.indexOf( "experience:" ) === 0 && entry.indexOf( "=" ) > 11 ) {
+                const equals = entry.indexOf( "=" );
+                overrides.experiences[entry.substring( 11, equals )] = entry.substring( equals + 1 );
+            } else if ( entry.indexOf( "-" ) === 0 ) {
+                overrides.revokeEntitlements.push( entry.substring( 1 ) );
+            } else {
+                overrides.grantEntitlements.push( entry.indexOf( "+" ) === 0 ? entry.substring( 1 ) : entry );
+            }
+        } );
+        return overrides;
+    }
+
+    /**
+     * Extracts overrides from a query string.
+     *
+     * @returns the overrides, `null` if they should be cleared, or `undefined` if the query string doesn't mention them.
+     */
+    public static fromQueryString( search:string ):AlDeveloperOverrides|null|undefined {
+        const pattern = new RegExp( `[?&]${AlDeveloperOverrideStore.queryParameter}=([^&#]*)` );
+        const match = pattern.exec( search || '' );
+        if ( ! match ) {
+            return undefined;
+        }
+        const text = decodeURIComponent( match[1] );
+        return text === "clear" ? null : AlDeveloperOverrideStore.parse( text );
+    }
+
+    public static isEmpty( overrides:AlDeveloperOverrides|null ):boolean {
+        return ! overrides
+            || ( ( overrides.grantEntitlements || [] ).length === 0
+                && ( overrides.revokeEntitlements || [] ).length === 0
+                && Object.keys( overrides.experiences || {} ).length === 0 );
+    }
+
+    /**
+     * Produces a copy of an entitlement collection with entitlements granted and revoked according to the overrides.
+     */
+    public static applyEntitlements( entitlements:AlEntitlementCollection, overrides:AlDeveloperOverrides ):AlEntitlementCollection {
+        const revoked = overrides.revokeEntitlements || [];
+        const records:AlEntitlementRecord[] = ( entitlements ? entitlements.getActiveEntitlementKeys() : [] )
+                                                .filter( productId => revoked.indexOf( productId ) === -1 )
+                                                .map( productId => entitlements.getProduct( productId ) );
+        ( overrides.grantEntitlements || [] ).filter( productId => revoked.indexOf( productId ) === -1 ).forEach( productId => {
+            records.push( { productId, active: true, expires: new Date( 8640000000000000 ) } );
+        } );
+        return new AlEntitlementCollection( records );
+    }
+
+    /**
+     * Applies the overrides' experiences to an experience tree, in place.
+     */
+    public static applyExperiences( experiences:AlExperienceTree, overrides:AlDeveloperOverrides ):AlExperienceTree {
+        Object.entries( overrides.experiences || {} ).forEach( ( [ path, override ] ) => {
+            if ( typeof( override ) !== 'string' ) {
+                setJsonPath( experiences, path, JSON.parse( JSON.stringify( override ) ) );
+                return;
+            }
+            let node = getJsonPath( experiences, path, null );
+            if ( ! node || typeof( node ) !== 'object' ) {
+                node = { available: [] };
+                setJsonPath( experiences, path, node );
+            }
+            node.available = Array.isArray( node.available ) ? node.available : [];
+            if ( node.available.indexOf( override ) === -1 ) {
+                node.available.push( override );
+            }
+            node.selected = override;
+        } );
+        return experiences;
+    }
+
+    /**
+     * Retrieves the stored overrides, or null if there are none.
+     */
+    public get():AlDeveloperOverrides|null {
+        const overrides = this.storage.get( "developer_overrides", null );
+        return AlDeveloperOverrideStore.isEmpty( overrides ) ? null : overrides;
+    }
+
+    public set( overrides:AlDeveloperOverrides|null ) {
+        if ( AlDeveloperOverrideStore.isEmpty( overrides ) ) {
+            this.clear();
+        } else {
+            this.storage.set( "developer_overrides", overrides );
+        }
+    }
+
+    public clear() {
+        this.storage.delete( "developer_overrides" );
+    }
+}
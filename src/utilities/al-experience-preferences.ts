@@ -0,0 +1,63 @@
+import { getJsonPath } from '@al/common';
+import { AlSessionStorage } from '../types';
+import { AlExperienceTree, AlExperienceNode } from '../types/al-experience.types';
+
+/**
+ * Remembers the experiences each user has selected for each account, keyed by path within the experience tree.
+ */
+export class AlExperiencePreferences
+{
+    constructor( protected storage:AlSessionStorage ) {
+    }
+
+    /**
+     * Retrieves the node at the given dot-separated path of an experience tree (the root, if the path is empty), provided it offers a
+     * selection; otherwise returns null.
+     */
+    public static getNode( experiences:AlExperienceTree, path:string ):AlExperienceNode|null {
+        const node = path ? getJsonPath( experiences, path, null ) : experiences;
+        return node && typeof( node ) === 'object' && Array.isArray( node.available ) ? node : null;
+    }
+
+    /**
+     * Applies saved selections to an experience tree, ignoring any whose path no longer exists or whose value is no longer available.
+     *
+     * @returns the paths whose selection changed, with their previous values.
+     */
+    public static apply( experiences:AlExperienceTree, selections:{[path:string]:string} ):{path:string,previous:string}[] {
+        const changes:{path:string,previous:string}[] = [];
+        Object.keys( selections || {} ).forEach( path => {
+            const node = AlExperiencePreferences.getNode( experiences, path );
+            const value = selections[path];
+            if ( node && node.available.indexOf( value ) !== -1 && node.selected !== value ) {
+                changes.push( { path, previous: node.selected || null } );
+                node.selected = value;
+            }
+        } );
+        return changes;
+    }
+
+    public static getKey( userId:string, accountId:string ):string {
+        return `experiences.${userId}.${accountId}`;
+    }
+
+    public get( userId:string, accountId:string ):{[path:string]:string} {
+        const selections = this.storage.get( AlExperiencePreferences.getKey( userId, accountId ), {} );
+        return selections && typeof( selections ) === 'object' && ! Array.isArray( selections ) ? selections : {};
+    }
+
+    public set( userId:string, accountId:string, path:string, value:string ):{[path:string]:string} {
+        const selections = this.get( userId, accountId );
+        selections[path] = value;
+        this.replace( userId, accountId, selections );
+        return selections;
+    }
+
+    public replace( userId:string, accountId:string, selections:{[path:string]:string} ) {
+        this.storage.set( AlExperiencePreferences.getKey( userId, accountId ), selections );
+    }
+
+    public clear( userId:string, accountId:string ) {
+        this.storage.delete( AlExperiencePreferences.getKey( userId, accountId ) );
+    }
+}
@@ -0,0 +1,59 @@
+const base64Alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * Environment-neutral JWT helpers.  These rely on neither `window.atob` nor node's `Buffer`, so they behave identically in browsers and node.
+ */
+export class AlJwtUtilities
+{
+    /**
+     * Decodes the payload (claims) segment of a JWT.  Returns null if the token is malformed.  Please note that this does NOT verify the token's signature.
+     */
+    public static decodePayload( token:string ):any {
+        if ( typeof( token ) !== 'string' ) {
+            return null;
+        }
+        const segments = token.split( '.' );
+        if ( segments.length < 2 ) {
+            return null;
+        }
+        try {
+            const payload = JSON.parse( AlJwtUtilities.decodeBase64Url( segments[1] ) );
+            return payload && typeof( payload ) === 'object' ? payload : null;
+        } catch( e ) {
+            return null;
+        }
+    }
+
+    /**
+     * Retrieves a JWT's expiration timestamp (in seconds), or 0 if it cannot be determined.
+     */
+    public static getExpiration( token:string ):number {
+        const payload = AlJwtUtilities.decodePayload( token );
+        return payload && typeof( payload.exp ) === 'number' ? payload.exp : 0;
+    }
+
+    /**
+     * Decodes a base64 or base64url string into a UTF-8 string.  Throws if the input contains characters outside either alphabet.
+     */
+    public static decodeBase64Url( encoded:string ):string {
+        const normalized = encoded.replace( /-/g, '+' ).replace( /_/g, '/' ).replace( /=+$/, '' );
+        let bits = 0;
+        let bitCount = 0;
+        let escaped = '';
+        for ( let i = 0; i < normalized.length; i++ ) {
+            const value = base64Alphabet.indexOf( normalized.charAt( i ) );
+            if ( value === -1 ) {
+                throw new Error( "Invalid base64 input" );
+            }
+            bits = ( bits << 6 ) | value;
+            bitCount += 6;
+            if ( bitCount >= 8 ) {
+                bitCount -= 8;
+                const byte = ( bits >> bitCount ) & 0xff;
+                escaped += '%' + ( byte < 16 ? '0' : '' ) + byte.toString( 16 );
+                bits &= ( 1 << bitCount ) - 1;
+            }
+        }
+        return decodeURIComponent( escaped );
+    }
+}
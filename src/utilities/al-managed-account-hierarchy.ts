@@ -0,0 +1,194 @@
+import { AIMSAccount } from '@al/client';
+
+/**
+ * A managed account's position in an AlManagedAccountHierarchy.  Depth 1 denotes an account managed directly by the root account.
+ */
+export interface AlManagedAccountNode {
+    account:AIMSAccount;
+    parentId:string;
+    childIds:string[];
+    depth:number;
+}
+
+/**
+ * A managed account and its (loaded) descendants, as produced by `AlManagedAccountHierarchy.getTree()`.
+ */
+export interface AlManagedAccountTreeNode {
+    account:AIMSAccount;
+    children:AlManagedAccountTreeNode[];
+}
+
+/**
+ * A slice of a list of managed accounts.  `total` is the length of the complete list.
+ */
+export interface AlManagedAccountPage {
+    accounts:AIMSAccount[];
+    total:number;
+    offset:number;
+    limit:number;
+}
+
+/**
+ * The accounts managed by a root account, organized by their management relationships.  An account that is reachable through more than one
+ * parent is listed under the first parent it was found through.
+ */
+export class AlManagedAccountHierarchy
+{
+    protected nodes:{[accountId:string]:AlManagedAccountNode} = {};
+    protected rootChildIds:string[] = [];
+    protected order:string[] = [];              //  Breadth-first
+
+    constructor( public root:AIMSAccount ) {
+    }
+
+    /**
+     * Loads a hierarchy breadth-first using the given loader, which should retrieve the accounts directly managed by a given account.
+     *
+     * @param maxDepth How many levels of management to load; use `Infinity` to load everything.  Defaults to 1.
+     * @param concurrency The maximum number of loader requests in flight at once.  Defaults to 4.
+     */
+    public static async load( root:AIMSAccount,
+                              loader:( accountId:string ) => Promise<AIMSAccount[]>,
+                              maxDepth:number = 1,
+                              concurrency:number = 4 ):Promise<AlManagedAccountHierarchy> {
+        const hierarchy = new AlManagedAccountHierarchy( root );
+        let frontier = [ root.id ];
+        for ( let depth = 1; frontier.length > 0 && depth <= maxDepth; depth++ ) {
+            const next:string[] = [];
+            for ( let i = 0; i < frontier.length; i += concurrency ) {
+                const batch = frontier.slice( i, i + concurrency );
+                const results = await Promise.all( batch.map( accountId => loader( accountId ) ) );
+                results.forEach( ( children, index ) => {
+                    ( children || [] ).forEach( child => {
+                        if ( hierarchy.add( child, batch[index] ) ) {
+                            next.push( child.id );
+                        }
+                    } );
+                } );
+            }
+            frontier = next;
+        }
+        return hierarchy;
+    }
+
+    /**
+     * Adds an account beneath the given parent (which must be the root or an account already in the hierarchy).
+     *
+     * @returns false if the account was already present or the parent is unknown.
+     */
+    public add( account:AIMSAccount, parentId:string ):boolean {
+        if ( this.nodes.hasOwnProperty( account.id ) || account.id === this.root.id ) {
+            return false;
+        }
+        let depth = 1;
+        if ( parentId === this.root.id ) {
+            this.rootChildIds.push( account.id );
+        } else if ( this.nodes.hasOwnProperty( parentId ) ) {
+            this.nodes[parentId].childIds.push( account.id );
+            depth = this.nodes[parentId].depth + 1;
+        } else {
+            return false;
+        }
+        this.nodes[account.id] = { account, parentId, depth, childIds: [] };
+        this.order.push( account.id );
+        return true;
+    }
+
+    public getAccount( accountId:string ):AIMSAccount|null {
+        if ( accountId === this.root.id ) {
+            return this.root;
+        }
+        return this.nodes.hasOwnProperty( accountId ) ? this.nodes[accountId].account : null;
+    }
+
+    public getNode( accountId:string ):AlManagedAccountNode|null {
+        return this.nodes.hasOwnProperty( accountId ) ? this.nodes[accountId] : null;
+    }
+
+    /**
+     * Retrieves the account that manages the given account, or null if it is the root or not in the hierarchy.
+     */
+    public getParent( accountId:string ):AIMSAccount|null {
+        const node = this.getNode( accountId );
+        return node ? this.getAccount( node.parentId ) : null;
+    }
+
+    /**
+     * Retrieves the accounts directly managed by the given account (by default, the root).
+     */
+    public getChildren( accountId:string = this.root.id ):AIMSAccount[] {
+        const childIds = accountId === this.root.id ? this.rootChildIds : ( this.nodes.hasOwnProperty( accountId ) ? this.nodes[accountId].childIds : [] );
+        return childIds.map( childId => this.nodes[childId].account );
+    }
+
+    /**
+     * Retrieves the chain of accounts managing the given account, starting with its parent and ending with the root.
+     */
+    public getAncestors( accountId:string ):AIMSAccount[] {
+        const ancestors:AIMSAccount[] = [];
+        let node = this.getNode( accountId );
+        while ( node ) {
+            ancestors.push( this.getAccount( node.parentId ) );
+            node = this.getNode( node.parentId );
+        }
+        return ancestors;
+    }
+
+    /**
+     * Retrieves every account beneath the given account (by default, the root), breadth-first.
+     */
+    public getDescendants( accountId:string = this.root.id ):AIMSAccount[] {
+        const descendants:AIMSAccount[] = [];
+        let frontier = this.getChildren( accountId );
+        while ( frontier.length > 0 ) {
+            descendants.push( ...frontier );
+            frontier = [].concat( ...frontier.map( account => this.getChildren( account.id ) ) );
+        }
+        return descendants;
+    }
+
+    /**
+     * Retrieves all managed accounts, breadth-first.
+     */
+    public getAccounts():AIMSAccount[] {
+        return this.order.map( accountId => this.nodes[accountId].account );
+    }
+
+    public getCount():number {
+        return this.order.length;
+    }
+
+    /**
+     * Builds a tree of the accounts beneath the given account (by default, the root).
+     */
+    public getTree( accountId:string = this.root.id ):AlManagedAccountTreeNode[] {
+        return this.getChildren( accountId ).map( account => ( { account, children: this.getTree( account.id ) } ) );
+    }
+
+    /**
+     * Retrieves a page of all managed accounts, breadth-first.
+     */
+    public getPage( offset:number = 0, limit:number = 50 ):AlManagedAccountPage {
+        return this.paginate( this.getAccounts(), offset, limit );
+    }
+
+    /**
+     * Finds managed accounts whose name or ID contains the given text (case-insensitively), returning a page of the matches.
+     */
+    public search( text:string, offset:number = 0, limit:number = 50 ):AlManagedAccountPage {
+        const needle = ( text || '' ).trim().toLowerCase();
+        const matches = this.getAccounts().filter( account => {
+            return account.id.toLowerCase().indexOf( needle ) !== -1 || ( account.name || '' ).toLowerCase().indexOf( needle ) !== -1;
+        } );
+        return this.paginate( matches, offset, limit );
+    }
+
+    protected paginate( accounts:AIMSAccount[], offset:number, limit:number ):AlManagedAccountPage {
+        return {
+            offset,
+            limit,
+            accounts: accounts.slice( offset, offset + limit ),
+            total: accounts.length
+        };
+    }
+}
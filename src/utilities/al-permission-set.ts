@@ -0,0 +1,81 @@
+import { AIMSRole } from '@al/aims';
+
+/**
+ * A user's effective AIMS permissions: a map of colon-delimited permission patterns (e.g., `aims:own:grant:*`) to "allowed" or "denied".
+ *
+ * A pattern matches a permission segment by segment, with `*` matching any single segment; a trailing `*` also matches any number of further
+ * segments, so `*` alone matches everything.  A permission is granted if an "allowed" pattern matches it and no "denied" pattern does.
+ */
+export class AlPermissionSet
+{
+    constructor( public permissions:{[pattern:string]:string} = {} ) {
+    }
+
+    /**
+     * Imports the response of AIMS' user permissions endpoint, which may be a `{ permissions: {...} }` wrapper, a bare map of patterns, or a list
+     * of allowed patterns.
+     */
+    public static import( raw:any ):AlPermissionSet {
+        if ( raw && typeof( raw ) === 'object' && ! Array.isArray( raw ) && raw.permissions ) {
+            raw = raw.permissions;
+        }
+        if ( Array.isArray( raw ) ) {
+            const permissions:{[pattern:string]:string} = {};
+            raw.filter( pattern => typeof( pattern ) === 'string' ).forEach( pattern => permissions[pattern] = "allowed" );
+            return new AlPermissionSet( permissions );
+        }
+        return new AlPermissionSet( raw && typeof( raw ) === 'object' ? Object.assign( {}, raw ) : {} );
+    }
+
+    /**
+     * Combines the permissions of a set of roles.  Denials take precedence over grants of the same pattern.
+     */
+    public static fromRoles( roles:AIMSRole[] ):AlPermissionSet {
+        const permissions:{[pattern:string]:string} = {};
+        ( roles || [] ).forEach( role => {
+            Object.entries<string>( role.permissions || {} ).forEach( ( [ pattern, value ] ) => {
+                if ( permissions[pattern] !== "denied" ) {
+                    permissions[pattern] = value;
+                }
+            } );
+        } );
+        return new AlPermissionSet( permissions );
+    }
+
+    /**
+     * Tests whether a permission pattern matches a permission.
+     */
+    public static matches( pattern:string, permission:string ):boolean {
+        const expected = pattern.split( ":" );
+        const actual = permission.split( ":" );
+        for ( let i = 0; i < expected.length; i++ ) {
+            if ( expected[i] === "*" && i === expected.length - 1 ) {
+                return actual.length >= expected.length;
+            }
+            if ( i >= actual.length || ( expected[i] !== "*" && expected[i] !== actual[i] ) ) {
+                return false;
+            }
+        }
+        return expected.length === actual.length;
+    }
+
+    public has( permission:string ):boolean {
+        let allowed = false;
+        for ( const [ pattern, value ] of Object.entries( this.permissions ) ) {
+            if ( AlPermissionSet.matches( pattern, permission ) ) {
+                if ( value === "denied" ) {
+                    return false;
+                }
+                allowed = allowed || value === "allowed";
+            }
+        }
+        return allowed;
+    }
+
+    /**
+     * Lists the patterns this set allows.
+     */
+    public getAllowed():string[] {
+        return Object.keys( this.permissions ).filter( pattern => this.permissions[pattern] === "allowed" );
+    }
+}
@@ -0,0 +1,119 @@
+import { AIMSAccount, AIMSRole } from '@al/aims';
+import { AlEntitlementCollection, AlEntitlementRecord } from '@al/subscriptions';
+import { AlActingAccountResolvedEvent } from '../events';
+import { AlSessionStorage } from '../types';
+import { AlExperienceTree } from '../types/al-experience.types';
+import { AlPermissionSet } from './al-permission-set';
+
+/**
+ * The serializable form of an acting account resolution.
+ */
+export interface AlCachedResolution {
+    actingAccount:AIMSAccount;
+    entitlements:AlEntitlementRecord[];
+    primaryEntitlements:AlEntitlementRecord[];
+    experiences:any;
+    roles:AIMSRole[];
+    permissions:{[pattern:string]:string};
+}
+
+/**
+ * Remembers recent acting account resolutions for each user, so that switching back to an account can be served from cache while it is
+ * revalidated.  Only the `limit` most recently stored accounts are kept per user.
+ */
+export class AlResolutionCache
+{
+    constructor( protected storage:AlSessionStorage,
+                 public limit:number = 20 ) {
+    }
+
+    public static serialize( resolved:AlActingAccountResolvedEvent ):AlCachedResolution {
+        const records = ( collection:AlEntitlementCollection ) => {
+            return collection ? collection.getActiveEntitlementKeys().sort().map( productId => collection.getProduct( productId ) ) : [];
+        };
+        return JSON.parse( JSON.stringify( {
+            actingAccount: resolved.actingAccount,
+            entitlements: records( resolved.entitlements ),
+            primaryEntitlements: records( resolved.primaryEntitlements ),
+            experiences: resolved.experiences || {},
+            roles: resolved.roles || [],
+            permissions: resolved.permissions ? resolved.permissions.permissions : {}
+        } ) );
+    }
+
+    public static deserialize( cached:AlCachedResolution ):AlActingAccountResolvedEvent {
+        const collection = ( records:AlEntitlementRecord[] ) => {
+            return new AlEntitlementCollection( ( records || [] ).map( record => Object.assign( {}, record, { expires: new Date( record.expires ) } ) ) );
+        };
+        const resolved = new AlActingAccountResolvedEvent( cached.actingAccount,
+                                                           collection( cached.entitlements ),
+                                                           collection( cached.primaryEntitlements ),
+                                                           new AlExperienceTree( JSON.parse( JSON.stringify( cached.experiences || {} ) ) ) );
+        resolved.roles = cached.roles || [];
+        resolved.permissions = new AlPermissionSet( Object.assign( {}, cached.permissions ) );
+        return resolved;
+    }
+
+    /**
+     * Determines whether two resolutions are materially the same.  Entitlement expiration dates are disregarded.
+     */
+    public static isEquivalent( a:AlCachedResolution, b:AlCachedResolution ):boolean {
+        const fingerprint = ( resolution:AlCachedResolution ) => {
+            const entitlements = ( records:AlEntitlementRecord[] ) => records.map( record => `${record.productId}:${record.value_type || ''}:${record.value || 0}` );
+            return JSON.stringify( [
+                resolution.actingAccount,
+                entitlements( resolution.entitlements ),
+                entitlements( resolution.primaryEntitlements ),
+                resolution.experiences,
+                resolution.roles,
+                resolution.permissions
+            ] );
+        };
+        return fingerprint( a ) === fingerprint( b );
+    }
+
+    /**
+     * Retrieves a cached resolution, provided it is no older than `ttl` seconds.
+     */
+    public get( userId:string, accountId:string, ttl:number ):AlCachedResolution|null {
+        const entries = this.load( userId );
+        const entry = entries[accountId];
+        if ( ! entry || ! entry.resolution || Date.now() - entry.stored > ttl * 1000 ) {
+            return null;
+        }
+        return entry.resolution;
+    }
+
+    public store( userId:string, resolution:AlCachedResolution ) {
+        const entries = this.load( userId );
+        entries[resolution.actingAccount.id] = { resolution, stored: Date.now() };
+        const retained = Object.keys( entries ).sort( ( a, b ) => entries[b].stored - entries[a].stored ).slice( 0, this.limit );
+        const trimmed:{[accountId:string]:{resolution:AlCachedResolution,stored:number}} = {};
+        retained.forEach( accountId => trimmed[accountId] = entries[accountId] );
+        this.storage.set( this.getKey( userId ), trimmed );
+    }
+
+    /**
+     * Discards a user's cached resolution for one account, or for all accounts if none is specified.
+     */
+    public invalidate( userId:string, accountId?:string ) {
+        if ( ! accountId ) {
+            this.storage.delete( this.getKey( userId ) );
+            return;
+        }
+        const entries = this.load( userId );
+        if ( entries.hasOwnProperty( accountId ) ) {
+            delete entries[accountId];
+            this.storage.set( this.getKey( userId ), entries );
+        }
+    }
+
+    protected load( userId:string ):{[accountId:string]:{resolution:AlCachedResolution,stored:number}} {
+        const entries = this.storage.get( this.getKey( userId ), {} );
+        return entries && typeof( entries ) === 'object' && ! Array.isArray( entries ) ? entries : {};
+    }
+
+    protected getKey( userId:string ):string {
+        return `resolutions.${userId}`;
+    }
+}
@@ -0,0 +1,90 @@
+import { AlEntitlementCollection } from '@al/subscriptions';
+import { AlActingAccountResolvedEvent } from '../events';
+import { AlActingAccountResolutionDiff } from '../types';
+import { AlExperienceNode, AlExperienceTree } from '../types/al-experience.types';
+
+/**
+ * Computes the differences between two acting account resolutions.
+ */
+export class AlResolutionDiff
+{
+    /**
+     * Compares a resolution with the one before it (which may be null, or lack an acting account, if there was none).  Datacenters are
+     * provided separately because resolutions don't record them.
+     */
+    public static compute( previous:AlActingAccountResolvedEvent|null,
+                           current:AlActingAccountResolvedEvent,
+                           previousDatacenter:string|null = null,
+                           datacenter:string|null = null ):AlActingAccountResolutionDiff {
+        const previousAccount = previous && previous.actingAccount ? previous.actingAccount : null;
+        const baseline = previousAccount ? previous : new AlActingAccountResolvedEvent( null, null, null, null );
+        const [ entitlementsGained, entitlementsLost ] = AlResolutionDiff.compareEntitlements( baseline.entitlements, current.entitlements );
+        const [ primaryEntitlementsGained, primaryEntitlementsLost ] = AlResolutionDiff.compareEntitlements( baseline.primaryEntitlements, current.primaryEntitlements );
+        return {
+            previousAccount,
+            entitlementsGained,
+            entitlementsLost,
+            primaryEntitlementsGained,
+            primaryEntitlementsLost,
+            previousDatacenter,
+            datacenter,
+            accountChanged: ! previousAccount || ! current.actingAccount || previousAccount.id !== current.actingAccount.id,
+            experiencesChanged: AlResolutionDiff.compareExperiences( baseline.experiences, current.experiences ),
+            datacenterChanged: previousDatacenter !== datacenter
+        };
+    }
+
+    /**
+     * Indicates whether a diff describes no changes at all.
+     */
+    public static isEmpty( diff:AlActingAccountResolutionDiff ):boolean {
+        return ! diff.accountChanged
+            && ! diff.datacenterChanged
+            && diff.entitlementsGained.length === 0
+            && diff.entitlementsLost.length === 0
+            && diff.primaryEntitlementsGained.length === 0
+            && diff.primaryEntitlementsLost.length === 0
+            && diff.experiencesChanged.length === 0;
+    }
+
+    protected static compareEntitlements( previous:AlEntitlementCollection|null, current:AlEntitlementCollection|null ):[ string[], string[] ] {
+        const before = previous ? previous.getActiveEntitlementKeys() : [];
+        const after = current ? current.getActiveEntitlementKeys() : [];
+        return [
+            after.filter( key => before.indexOf( key ) === -1 ).sort(),
+            before.filter( key => after.indexOf( key ) === -1 ).sort()
+        ];
+    }
+
+    protected static compareExperiences( previous:AlExperienceTree|null, current:AlExperienceTree|null ) {
+        const before = AlResolutionDiff.collectSelections( previous );
+        const after = AlResolutionDiff.collectSelections( current );
+        const paths = Object.keys( before ).concat( Object.keys( after ).filter( path => ! before.hasOwnProperty( path ) ) ).sort();
+        return paths.filter( path => before[path] !== after[path] )
+                    .map( path => ( {
+                        path,
+                        previous: before.hasOwnProperty( path ) ? before[path] : null,
+                        selected: after.hasOwnProperty( path ) ? after[path] : null
+                    } ) );
+    }
+
+    /**
+     * Maps the path of every selectable node in an experience tree to its selection.  The root's path is empty.
+     */
+    protected static collectSelections( node:unknown, path:string = '', selections:{[path:string]:string|null} = {} ):{[path:string]:string|null} {
+        if ( ! AlResolutionDiff.isExperienceNode( node ) ) {
+            return selections;
+        }
+        if ( Array.isArray( node.available ) && node.available.length > 0 ) {
+            selections[path] = node.selected || null;
+        }
+        Object.keys( node ).filter( key => key !== 'available' && key !== 'selected' && key !== 'prompt' ).forEach( key => {
+            AlResolutionDiff.collectSelections( node[key], path ? `${path}.${key}` : key, selections );
+        } );
+        return selections;
+    }
+
+    protected static isExperienceNode( value:unknown ):value is AlExperienceNode {
+        return !! value && typeof( value ) === 'object' && ! Array.isArray( value );
+    }
+}
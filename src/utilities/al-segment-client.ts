@@ -96,7 +96,8 @@ export class AlSegmentClient
         }
 
         if ( typeof( window ) === 'undefined' ) {
-            return new NullSegmentAnalytics();
+            this.analytics = new NullSegmentAnalytics();
+            return this.analytics;
         }
 
         /* tslint:disable */
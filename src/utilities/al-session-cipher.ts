@@ -0,0 +1,205 @@
+/**
+ * Which contexts may decrypt a persisted session.  "tab" keys are only reachable from the tab that created them, and are lost when it
+ * closes; "origin" keys are shared by all tabs of the same origin.
+ */
+export type AlSessionEncryptionScope = "tab"|"origin";
+
+/**
+ * The shape of an encrypted, persisted session.
+ */
+export interface AlEncryptedSessionEnvelope {
+    encrypted:true;
+    algorithm:"AES-GCM";
+    scope:AlSessionEncryptionScope;
+    iv:string;
+    data:string;
+}
+
+/**
+ * AlSessionCipher encrypts and decrypts persisted session data using WebCrypto's AES-GCM.  Because GCM is an authenticated mode,
+ * any alteration of the ciphertext, the IV, or the associated namespace causes decryption to fail, which doubles as tamper detection.
+ *
+ * Keys are generated on demand as non-extractable CryptoKeys and kept in IndexedDB, apart from the data they protect: they can be used, but
+ * never read.  "tab" keys are filed under an identifier kept in sessionStorage, so they become unreachable once the tab is closed.  This
+ * protects tokens from disclosure and tampering through storage (storage dumps, copied profiles, naive extensions); it cannot protect
+ * against script running in the same origin.
+ */
+export class AlSessionCipher
+{
+    /**
+     * The IndexedDB database (and object store) in which keys are kept.
+     */
+    public static keyDatabase = "al_session_keys";
+
+    protected key:Promise<CryptoKey> = null;
+
+    constructor( public scope:AlSessionEncryptionScope,
+                 public namespace:string = "al_session" ) {
+    }
+
+    /**
+     * Determines whether WebCrypto (which requires a secure context) and IndexedDB are available in the current environment.
+     */
+    public static isSupported():boolean {
+        return typeof( crypto ) !== 'undefined' && !! crypto.subtle && typeof( crypto.getRandomValues ) === 'function' && typeof( indexedDB ) !== 'undefined';
+    }
+
+    /**
+     * Determines whether a persisted value is an encrypted session envelope.
+     */
+    public static isEnvelope( value:any ):value is AlEncryptedSessionEnvelope {
+        return !! value && typeof( value ) === 'object' && value.encrypted === true && typeof( value.iv ) === 'string' && typeof( value.data ) === 'string';
+    }
+
+    public async encrypt( value:any ):Promise<AlEncryptedSessionEnvelope> {
+        const key = await this.getKey( true );
+        const iv = crypto.getRandomValues( new Uint8Array( 12 ) );
+        const plaintext = new TextEncoder().encode( JSON.stringify( value ) );
+        const ciphertext = await crypto.subtle.encrypt( { iv, name: "AES-GCM", additionalData: this.getAssociatedData() }, key, plaintext );
+        return {
+            encrypted: true,
+            algorithm: "AES-GCM",
+            scope: this.scope,
+            iv: toBase64( iv ),
+            data: toBase64( new Uint8Array( ciphertext ) )
+        };
+    }
+
+    /**
+     * Decrypts an envelope.  Rejects if the envelope has been altered, or if it was produced with a key that isn't available to this context.
+     */
+    public async decrypt( envelope:AlEncryptedSessionEnvelope ):Promise<any> {
+        if ( ! AlSessionCipher.isEnvelope( envelope ) || envelope.algorithm !== "AES-GCM" ) {
+            throw new Error( "Persisted session is not a recognized encrypted envelope" );
+        }
+        const key = await this.getKey( false );
+        if ( ! key ) {
+            throw new Error( `No ${this.scope}-scoped key is available to decrypt the persisted session` );
+        }
+        let plaintext:ArrayBuffer;
+        try {
+            plaintext = await crypto.subtle.decrypt( { name: "AES-GCM", iv: fromBase64( envelope.iv ), additionalData: this.getAssociatedData() },
+                                                     key,
+                                                     fromBase64( envelope.data ) );
+        } catch( e ) {
+            throw new Error( "Persisted session failed its integrity check" );
+        }
+        return JSON.parse( new TextDecoder().decode( plaintext ) );
+    }
+
+    /**
+     * Determines whether a key for this scope already exists, i.e., whether previously encrypted data could possibly be decrypted.
+     */
+    public async hasKey():Promise<boolean> {
+        try {
+            return !! await this.getKey( false );
+        } catch( e ) {
+            return false;
+        }
+    }
+
+    /**
+     * Discards the key, rendering anything encrypted with it unreadable.
+     */
+    public async destroyKey():Promise<void> {
+        this.key = null;
+        const keyName = this.getKeyName( false );
+        if ( this.scope === "tab" && typeof( window ) !== 'undefined' ) {
+            window.sessionStorage.removeItem( this.getTabIdName() );
+        }
+        if ( keyName && AlSessionCipher.isSupported() ) {
+            await accessKeyStore<void>( "readwrite", keys => keys.delete( keyName ) );
+        }
+    }
+
+    protected getKey( create:boolean ):Promise<CryptoKey> {
+        if ( ! this.key ) {
+            this.key = this.loadKey( create );
+            //  Don't cache failures or absent keys
+            this.key.then( key => { if ( ! key ) { this.key = null; } }, () => { this.key = null; } );
+        }
+        return this.key;
+    }
+
+    protected async loadKey( create:boolean ):Promise<CryptoKey> {
+        const keyName = this.getKeyName( create );
+        if ( ! keyName ) {
+            return null;
+        }
+        const stored = await accessKeyStore<CryptoKey>( "readonly", keys => keys.get( keyName ) );
+        if ( stored || ! create ) {
+            return stored || null;
+        }
+        const key = await crypto.subtle.generateKey( { name: "AES-GCM", length: 256 }, false, [ "encrypt", "decrypt" ] );
+        await accessKeyStore<void>( "readwrite", keys => keys.put( key, keyName ) );
+        return key;
+    }
+
+    /**
+     * Names this scope's key in the key database.  "tab" keys are named after an identifier kept in sessionStorage, which is assigned
+     * if `create` is true; otherwise, null is returned if the tab has no key.
+     */
+    protected getKeyName( create:boolean ):string|null {
+        if ( this.scope !== "tab" ) {
+            return `${this.namespace}.key`;
+        }
+        if ( typeof( window ) === 'undefined' ) {
+            return null;
+        }
+        let tabId = window.sessionStorage.getItem( this.getTabIdName() );
+        if ( ! tabId && create ) {
+            tabId = toBase64( crypto.getRandomValues( new Uint8Array( 12 ) ) );
+            window.sessionStorage.setItem( this.getTabIdName(), tabId );
+        }
+        return tabId ? `${this.namespace}.key.${tabId}` : null;
+    }
+
+    protected getTabIdName():string {
+        return `${this.namespace}.key_id`;
+    }
+
+    protected getAssociatedData():Uint8Array {
+        return new TextEncoder().encode( `${this.namespace}:${this.scope}` );
+    }
+}
+
+/**
+ * Performs a single request against the key database, resolving with its result once the transaction completes.
+ */
+function accessKeyStore<ResultType>( mode:IDBTransactionMode, operation:( keys:IDBObjectStore ) => IDBRequest ):Promise<ResultType> {
+    return new Promise<ResultType>( ( resolve, reject ) => {
+        const opening = indexedDB.open( AlSessionCipher.keyDatabase, 1 );
+        opening.onupgradeneeded = () => opening.result.createObjectStore( AlSessionCipher.keyDatabase );
+        opening.onerror = () => reject( opening.error );
+        opening.onsuccess = () => {
+            const database = opening.result;
+            const transaction = database.transaction( AlSessionCipher.keyDatabase, mode );
+            const request = operation( transaction.objectStore( AlSessionCipher.keyDatabase ) );
+            transaction.oncomplete = () => {
+                database.close();
+                resolve( request.result );
+            };
+            transaction.onerror = transaction.onabort = () => {
+                database.close();
+                reject( transaction.error );
+            };
+        };
+    } );
+}
+
+function toBase64( bytes:Uint8Array ):string {
+    let binary = '';
+    for ( let i = 0; i < bytes.length; i++ ) {
+        binary += String.fromCharCode( bytes[i] );
+    }
+    return btoa( binary );
+}
+
+function fromBase64( encoded:string ):Uint8Array {
+    const binary = atob( encoded );
+    const bytes = new Uint8Array( binary.length );
+    for ( let i = 0; i < binary.length; i++ ) {
+        bytes[i] = binary.charCodeAt( i );
+    }
+    return bytes;
+}
@@ -11,6 +11,9 @@ import { ALSession } from '../index';
 import { ALClient } from '@al/client';
 import { AIMSClient, AIMSSessionDescriptor, AIMSAuthentication, AIMSUser, AIMSAccount } from '@al/aims';
 import { AlConduitClient } from './al-conduit-client';
+import { AlSessionEnvironment } from './al-session-environment';
+import { AlJwtUtilities } from './al-jwt-utilities';
+import { AlSessionSchemas } from './al-session-schema';
 
 export class AlSessionDetector
 {
@@ -68,6 +71,13 @@ export class AlSessionDetector
                 return this.onDetectionSuccess( resolve );
             }
 
+            /**
+             * Headless environments have neither conduit nor auth0, so an existing AlSession is the only possible source of a session
+             */
+            if ( AlSessionEnvironment.isHeadless() ) {
+                return this.onDetectionFail( resolve, "Headless environment: no existing session was found, and conduit and auth0 are unavailable." );
+            }
+
             /**
              * Check conduit to see if it has a session available
              */
@@ -134,6 +144,9 @@ export class AlSessionDetector
      */
 
     public forceAuthentication() {
+        if ( AlSessionEnvironment.isHeadless() ) {
+            throw new Error( "Interactive authentication is not available in a headless environment; use ALSession.authenticate() instead." );
+        }
         const loginUri = ALClient.resolveLocation(AlLocation.AccountsUI, '/#/login');
         const returnUri = window.location.origin + ((window.location.pathname && window.location.pathname.length > 1) ? window.location.pathname : "");
         this.redirect( `${loginUri}?return=${encodeURIComponent(returnUri)}&token=null`, "User is not authenticated; redirecting to login." );
@@ -145,6 +158,13 @@ export class AlSessionDetector
      */
 
     ingestExistingSession = async ( proposedSession: AIMSSessionDescriptor ):Promise<boolean> => {
+        try {
+            ALSession.validateSchema( proposedSession, AlSessionSchemas.proposedSessionDescriptor, "a proposed session" );
+        } catch( e ) {
+            this.authenticated = false;
+            console.error("Refusing to ingest malformed session: ", e );
+            throw e;
+        }
         let session = await this.normalizeSessionDescriptor( proposedSession );
         try {
             await ALSession.setAuthentication( session );
@@ -312,12 +332,8 @@ export class AlSessionDetector
             console.warn("Warning: unexpected JWT format causing existing session not to be recognized.", token );
             return 0;
         }
-        const base64Url = split[1];
-        const base64 = base64Url.replace('-', '+').replace('_', '/');
-        let userData;
-        try {
-            userData = JSON.parse(window.atob(base64));
-        } catch (e) {
+        const userData = AlJwtUtilities.decodePayload( token );
+        if ( ! userData ) {
             console.warn("Warning: invalid JWT encoding causing existing session not to be recognized." );
             return 0;
         }
@@ -330,7 +346,7 @@ export class AlSessionDetector
         return userData.exp;
     }
 
-    protected async getAuth0SessionToken( authenticator:WebAuth, config:any, timeout:number ):Promise<string> {
+    public async getAuth0SessionToken( authenticator:WebAuth, config:any, timeout:number ):Promise<string> {
       return Promise.race( [ AlStopwatch.promise( timeout ),
                            new Promise<string>( ( resolve, reject ) => {
                                authenticator.checkSession( config, ( error, authResult ) => {
@@ -0,0 +1,26 @@
+/**
+ * AlSessionEnvironment describes the runtime this library is executing in.  In a headless environment (node scripts, automation, integration
+ * tests) there is no window or document, so conduit, auth0, Segment and DOM-based features are unavailable, and session data is kept in
+ * memory unless a storage backend is provided explicitly.
+ */
+export class AlSessionEnvironment
+{
+    protected static headlessOverride:boolean = null;
+
+    /**
+     * Determines whether the current runtime is headless.  This is detected automatically, but can be overridden with `setHeadless`.
+     */
+    public static isHeadless():boolean {
+        if ( AlSessionEnvironment.headlessOverride !== null ) {
+            return AlSessionEnvironment.headlessOverride;
+        }
+        return typeof( window ) === 'undefined' || typeof( document ) === 'undefined';
+    }
+
+    /**
+     * Forces headless mode on or off; pass `null` to restore automatic detection.
+     */
+    public static setHeadless( headless:boolean|null ) {
+        AlSessionEnvironment.headlessOverride = headless;
+    }
+}
@@ -0,0 +1,189 @@
+import { getJsonPath } from '@al/common';
+import { AlEntitlementCollection } from '@al/subscriptions';
+import { AlExperienceTree } from '../types/al-experience.types';
+import { AlSessionExpressionError } from '../errors';
+
+/**
+ * The data an expression is evaluated against.
+ */
+export interface AlSessionExpressionContext {
+    entitlements:AlEntitlementCollection;
+    primaryEntitlements:AlEntitlementCollection;
+    experiences:AlExperienceTree;
+}
+
+type AlExpressionEvaluator = ( context:AlSessionExpressionContext ) => boolean;
+
+interface AlExpressionToken {
+    type:"("|")"|"&"|"|"|"!"|"term"|"end";
+    text:string;
+    position:number;
+}
+
+/**
+ * Parses and evaluates boolean expressions about entitlements and experiences, such as `cloud_defender&(tmc|!lm_essentials)`.
+ *
+ * Terms may be:
+ *      - an entitlement key, checked against the acting account's effective entitlements (e.g., `tmc`)
+ *      - an entitlement key prefixed with `primary:`, checked against the primary account's entitlements (e.g., `primary:tmc`)
+ *      - `experience:path`, true if the experience at the given dot-separated path has a selected value
+ *      - `experience:path=value`, true if the experience at the given path is (or has selected) the given value
+ *
+ * Terms may be combined with `&` (and), `|` (or), `!` (not) and parentheses; `!` binds most tightly and `&` binds more tightly than `|`.
+ * Compiled expressions are cached.
+ */
+export class AlSessionExpression
+{
+    public static maxCacheSize = 500;
+
+    protected static cache:{[expression:string]:AlSessionExpression} = {};
+    protected static cacheSize = 0;
+
+    protected tokens:AlExpressionToken[] = [];
+    protected index = 0;
+    protected evaluator:AlExpressionEvaluator;
+
+    protected constructor( public expression:string ) {
+        this.tokens = this.tokenize();
+        this.evaluator = this.parseOr();
+        if ( this.peek().type !== "end" ) {
+            this.fail( this.peek(), `unexpected '${this.peek().text}'; expected '&', '|' or the end of the expression` );
+        }
+    }
+
+    /**
+     * Compiles an expression (or retrieves it from the cache), throwing an AlSessionExpressionError if it is malformed.
+     */
+    public static compile( expression:string ):AlSessionExpression {
+        if ( AlSessionExpression.cache.hasOwnProperty( expression ) ) {
+            return AlSessionExpression.cache[expression];
+        }
+        const compiled = new AlSessionExpression( expression );
+        if ( AlSessionExpression.cacheSize >= AlSessionExpression.maxCacheSize ) {
+            AlSessionExpression.clearCache();
+        }
+        AlSessionExpression.cache[expression] = compiled;
+        AlSessionExpression.cacheSize++;
+        return compiled;
+    }
+
+    public static clearCache() {
+        AlSessionExpression.cache = {};
+        AlSessionExpression.cacheSize = 0;
+    }
+
+    public evaluate( context:AlSessionExpressionContext ):boolean {
+        return this.evaluator( context );
+    }
+
+    protected parseOr():AlExpressionEvaluator {
+        const operands = [ this.parseAnd() ];
+        while ( this.peek().type === "|" ) {
+            this.index++;
+            operands.push( this.parseAnd() );
+        }
+        return operands.length === 1 ? operands[0] : context => operands.some( operand => operand( context ) );
+    }
+
+    protected parseAnd():AlExpressionEvaluator {
+        const operands = [ this.parseUnary() ];
+        while ( this.peek().type === "&" ) {
+            this.index++;
+            operands.push( this.parseUnary() );
+        }
+        return operands.length === 1 ? operands[0] : context => operands.every( operand => operand( context ) );
+    }
+
+    protected parseUnary():AlExpressionEvaluator {
+        const token = this.peek();
+        if ( token.type === "!" ) {
+            this.index++;
+            const operand = this.parseUnary();
+            return context => ! operand( context );
+        }
+        if ( token.type === "(" ) {
+            this.index++;
+            const inner = this.parseOr();
+            if ( this.peek().type !== ")" ) {
+                this.fail( this.peek(), `missing ')' to close the '(' at position ${token.position}` );
+            }
+            this.index++;
+            return inner;
+        }
+        if ( token.type === "term" ) {
+            this.index++;
+            return this.compileTerm( token );
+        }
+        const found = token.type === "end" ? "the end of the expression" : `'${token.text}'`;
+        return this.fail( token, `unexpected ${found}; expected an entitlement, 'primary:', 'experience:', '!' or '('` );
+    }
+
+    protected compileTerm( token:AlExpressionToken ):AlExpressionEvaluator {
+        const separator = token.text.indexOf( ":" );
+        if ( separator === -1 ) {
+            const key = this.requireKey( token, token.text, 0 );
+            return context => !! context.entitlements && context.entitlements.evaluateExpression( key );
+        }
+        const prefix = token.text.substring( 0, separator );
+        const remainder = token.text.substring( separator + 1 );
+        if ( prefix === "primary" ) {
+            const key = this.requireKey( token, remainder, separator + 1 );
+            return context => !! context.primaryEntitlements && context.primaryEntitlements.evaluateExpression( key );
+        }
+        if ( prefix === "experience" ) {
+            const equals = remainder.indexOf( "=" );
+            const path = this.requireKey( token, equals === -1 ? remainder : remainder.substring( 0, equals ), separator + 1 );
+            const expected = equals === -1 ? null : this.requireKey( token, remainder.substring( equals + 1 ), separator + equals + 2 );
+            return context => {
+                let value = context.experiences ? getJsonPath( context.experiences, path, null ) : null;
+                if ( value && typeof( value ) === 'object' ) {
+                    value = value.selected;
+                }
+                if ( expected === null ) {
+                    return value !== null && value !== undefined && value !== false && value !== '';
+                }
+                return value !== null && value !== undefined && `${value}` === expected;
+            };
+        }
+        return this.fail( token, `unknown term prefix '${prefix}:'; expected 'primary:' or 'experience:'` );
+    }
+
+    protected requireKey( token:AlExpressionToken, key:string, offset:number ):string {
+        if ( ! /^[A-Za-z0-9_\-.]+$/.test( key ) ) {
+            const problem = key.length === 0 ? "a name is missing" : `'${key}' is not a valid name`;
+            this.fail( { type: "term", text: key, position: token.position + offset }, problem );
+        }
+        return key;
+    }
+
+    protected tokenize():AlExpressionToken[] {
+        const tokens:AlExpressionToken[] = [];
+        const source = this.expression || '';
+        let position = 0;
+        while ( position < source.length ) {
+            const character = source.charAt( position );
+            if ( /\s/.test( character ) ) {
+                position++;
+            } else if ( "()&|!".indexOf( character ) !== -1 ) {
+                tokens.push( { position, type: character as AlExpressionToken["type"], text: character } );
+                position++;
+            } else {
+                const start = position;
+                while ( position < source.length && ! /[\s()&|!]/.test( source.charAt( position ) ) ) {
+                    position++;
+                }
+                tokens.push( { type: "term", text: source.substring( start, position ), position: start } );
+            }
+        }
+        tokens.push( { type: "end", text: "", position: source.length } );
+        return tokens;
+    }
+
+    protected peek():AlExpressionToken {
+        return this.tokens[this.index];
+    }
+
+    protected fail( token:AlExpressionToken, problem:string ):never {
+        throw new AlSessionExpressionError( this.expression, token.position, problem );
+    }
+}
@@ -0,0 +1,146 @@
+import { AlSession, AlSessionInstance } from '../al-session';
+import { AlSessionDetector } from './al-session-detector';
+import { AlSessionExpression } from './al-session-expression';
+
+/**
+ * The conditions a guard imposes.  Every requirement but `authenticated: false` implies an authenticated session.
+ */
+export interface AlSessionGuardRequirements {
+    /**
+     * Whether an authenticated session is required.  Defaults to true.
+     */
+    authenticated?:boolean;
+
+    /**
+     * An expression that must be satisfied by the resolved session; see `AlSessionInstance.evaluate()` for the syntax.
+     */
+    entitlements?:string;
+
+    /**
+     * Whether the acting account must be the user's primary account, or one of the accounts it manages.
+     */
+    account?:"primary"|"managed";
+
+    /**
+     * An insight location ID that must be accessible to the acting account.
+     */
+    location?:string;
+
+    /**
+     * Whether the user must be an Alert Logic (internal) user.
+     */
+    internalUser?:boolean;
+}
+
+export interface AlSessionGuardOptions {
+    /**
+     * The session to check.  Defaults to the global session.
+     */
+    session?:AlSessionInstance;
+
+    /**
+     * If provided, session detection is performed before an unauthenticated session is treated as such.  Detection populates the global
+     * session, so this should only be used with the default `session`.
+     */
+    detector?:AlSessionDetector;
+
+    /**
+     * How many seconds to wait for acting account resolution; if omitted, there is no time limit.
+     */
+    timeout?:number;
+
+    /**
+     * URLs to redirect to when a given requirement is not met, keyed by denial reason (e.g., `{ unauthenticated: "/login" }`).  Failures
+     * without a redirect produce a "deny" outcome.
+     */
+    redirects?:{[reason:string]:string};
+}
+
+/**
+ * Why a guard refused access.  "unresolved" indicates that the acting account's metadata could not be resolved (in time).
+ */
+export type AlSessionGuardDenialReason = "unauthenticated"|"unresolved"|"internal_user"|"account"|"location"|"entitlements";
+
+export type AlSessionGuardOutcome =
+    { result:"allow" } |
+    { result:"deny", reason:AlSessionGuardDenialReason } |
+    { result:"redirect", reason:AlSessionGuardDenialReason, url:string };
+
+/**
+ * A framework-agnostic route/feature guard.  Declare requirements once, and call `check()` from an Angular `canActivate`, a React route
+ * wrapper, or anywhere else; every caller gets the same semantics:
+ *
+ *      1. If the session isn't active, detection is attempted (if a detector was provided).
+ *      2. Acting account resolution is awaited (subject to `timeout`), so entitlements and experiences are never checked prematurely.
+ *      3. Requirements are checked in a fixed order: authentication, resolution, internal user, account, location, entitlements.
+ *
+ * Malformed entitlement expressions are reported by the constructor, rather than by every check.
+ */
+export class AlSessionGuard
+{
+    protected session:AlSessionInstance;
+
+    constructor( public requirements:AlSessionGuardRequirements,
+                 public options:AlSessionGuardOptions = {} ) {
+        this.session = options.session || AlSession;
+        if ( requirements.entitlements ) {
+            AlSessionExpression.compile( requirements.entitlements );
+        }
+    }
+
+    /**
+     * Checks the requirements against the session.  If the optional signal is aborted, the check stops waiting for resolution and
+     * refuses access as "unresolved".
+     */
+    public async check( signal?:AbortSignal ):Promise<AlSessionGuardOutcome> {
+        const requirements = this.requirements;
+        if ( ! this.session.isActive() && this.options.detector ) {
+            await this.options.detector.detectSession();
+        }
+        if ( ! this.session.isActive() ) {
+            return this.requiresSession() ? this.refuse( "unauthenticated" ) : { result: "allow" };
+        }
+        const resolution = await this.session.resolvedWithin( { signal, timeout: this.options.timeout } );
+        if ( resolution.status === "unauthenticated" ) {
+            return this.requiresSession() ? this.refuse( "unauthenticated" ) : { result: "allow" };
+        }
+        if ( resolution.status === "timeout" || resolution.status === "aborted" ) {
+            return this.refuse( "unresolved" );
+        }
+        if ( requirements.internalUser && ! this.session.isInternalUser() ) {
+            return this.refuse( "internal_user" );
+        }
+        if ( requirements.account ) {
+            const primary = this.session.getActingAccountId() === this.session.getPrimaryAccountId();
+            if ( primary !== ( requirements.account === "primary" ) ) {
+                return this.refuse( "account" );
+            }
+        }
+        if ( requirements.location && ( this.session.getActingAccountAccessibleLocations() || [] ).indexOf( requirements.location ) === -1 ) {
+            return this.refuse( "location" );
+        }
+        if ( requirements.entitlements ) {
+            if ( resolution.status === "failed" ) {
+                return this.refuse( "unresolved" );
+            }
+            if ( ! this.session.evaluate( requirements.entitlements ) ) {
+                return this.refuse( "entitlements" );
+            }
+        }
+        return { result: "allow" };
+    }
+
+    protected requiresSession():boolean {
+        const requirements = this.requirements;
+        return requirements.authenticated === undefined || requirements.authenticated
+            || !! ( requirements.entitlements || requirements.account || requirements.location || requirements.internalUser );
+    }
+
+    protected refuse( reason:AlSessionGuardDenialReason ):AlSessionGuardOutcome {
+        const redirects = this.options.redirects || {};
+        if ( redirects.hasOwnProperty( reason ) ) {
+            return { reason, result: "redirect", url: redirects[reason] };
+        }
+        return { reason, result: "deny" };
+    }
+}
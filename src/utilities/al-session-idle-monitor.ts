@@ -0,0 +1,136 @@
+import { AlStopwatch } from '@al/common';
+import { AlSessionInstance } from '../al-session';
+import { AlSessionActivityEvent, AlSessionExpiringEvent, AlSessionIdleEvent } from '../events';
+import { AlActivitySource, AlSessionIdleOptions } from '../types';
+
+/**
+ * An activity source that treats DOM input events (mouse, keyboard, touch, and scrolling) as user activity.
+ */
+export class AlDomActivitySource implements AlActivitySource
+{
+    public static defaultEventTypes = [ 'mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart', 'wheel' ];
+
+    protected listener:() => void = null;
+
+    constructor( public target:EventTarget = ( typeof( document ) !== 'undefined' ? document : null ),
+                 public eventTypes:string[] = AlDomActivitySource.defaultEventTypes ) {
+    }
+
+    public start( onActivity:() => void ) {
+        this.stop();
+        if ( ! this.target ) {
+            return;
+        }
+        this.listener = () => onActivity();
+        this.eventTypes.forEach( eventType => this.target.addEventListener( eventType, this.listener, true ) );
+    }
+
+    public stop() {
+        if ( this.target && this.listener ) {
+            this.eventTypes.forEach( eventType => this.target.removeEventListener( eventType, this.listener, true ) );
+        }
+        this.listener = null;
+    }
+}
+
+/**
+ * AlSessionIdleMonitor watches for user activity on behalf of an AlSessionInstance.  It emits AlSessionIdleEvent and AlSessionExpiringEvent
+ * through the session's notifyStream as the configured thresholds are crossed, and ends the session once the idle timeout is reached.
+ */
+export class AlSessionIdleMonitor
+{
+    /**
+     * The minimum number of seconds between AlSessionActivityEvents.
+     */
+    public static activityNotificationInterval = 10;
+
+    /**
+     * Timestamp (in milliseconds) of the last observed user activity
+     */
+    public lastActivity:number = Date.now();
+
+    protected options:AlSessionIdleOptions;
+    protected activitySource:AlActivitySource;
+    protected timer:AlStopwatch = null;
+    protected idleNotified = false;
+    protected activityNotified = 0;
+
+    constructor( public session:AlSessionInstance, options:AlSessionIdleOptions ) {
+        this.options = Object.assign( { warningThreshold: 60, checkInterval: 1 }, options );
+        if ( typeof( this.options.idleThreshold ) !== 'number' ) {
+            this.options.idleThreshold = Math.max( 0, this.options.idleTimeout - this.options.warningThreshold );
+        }
+        this.activitySource = this.options.activitySource || new AlDomActivitySource();
+    }
+
+    public start() {
+        if ( this.timer ) {
+            return;
+        }
+        this.recordActivity();
+        this.activitySource.start( () => this.recordActivity() );
+        this.timer = AlStopwatch.repeatedly( this.evaluate, this.options.checkInterval * 1000, false );
+    }
+
+    public stop() {
+        if ( this.timer ) {
+            this.timer.cancel();
+            this.timer = null;
+        }
+        this.activitySource.stop();
+    }
+
+    public isRunning():boolean {
+        return !! this.timer;
+    }
+
+    /**
+     * Resets the idle clock.  Activity reported by this monitor's own activity source is announced with an AlSessionActivityEvent, so that it
+     * can be shared with other tabs; activity observed elsewhere (`observedLocally` false) is not.
+     */
+    public recordActivity = ( timestamp:number = Date.now(), observedLocally:boolean = true ) => {
+        if ( timestamp < this.lastActivity ) {
+            return;
+        }
+        this.lastActivity = timestamp;
+        this.idleNotified = false;
+        if ( observedLocally && timestamp - this.activityNotified >= AlSessionIdleMonitor.activityNotificationInterval * 1000 ) {
+            this.activityNotified = timestamp;
+            this.session.notifyStream.trigger( new AlSessionActivityEvent( timestamp, this.session ) );
+        }
+    }
+
+    /**
+     * Retrieves the number of seconds since the last observed user activity.
+     */
+    public getIdleTime():number {
+        return ( Date.now() - this.lastActivity ) / 1000;
+    }
+
+    /**
+     * Evaluates idle state, emitting events or ending the session as necessary.  This is called on every tick of the monitor's timer.
+     */
+    public evaluate = () => {
+        if ( ! this.session.isActive() ) {
+            return;
+        }
+        const idleTime = this.getIdleTime();
+        const idleRemaining = this.options.idleTimeout - idleTime;
+        const tokenRemaining = this.session.getTokenExpiry() - ( Date.now() / 1000 );
+        const remaining = Math.min( idleRemaining, tokenRemaining );
+        const reason = idleRemaining <= tokenRemaining ? "idle" : "token";
+
+        if ( idleTime >= this.options.idleThreshold && ! this.idleNotified ) {
+            this.idleNotified = true;
+            this.session.notifyStream.trigger( new AlSessionIdleEvent( Math.floor( idleTime ), this.session ) );
+        }
+        if ( remaining <= 0 ) {
+            console.warn( reason === "idle" ? "Notice: ending session due to inactivity." : "Notice: ending session because its token has expired." );
+            this.session.deactivateSession( reason === "idle" ? "idle" : "expired" );
+            return;
+        }
+        if ( remaining <= this.options.warningThreshold ) {
+            this.session.notifyStream.trigger( new AlSessionExpiringEvent( Math.ceil( remaining ), reason, this.session ) );
+        }
+    }
+}
@@ -0,0 +1,98 @@
+import { AIMSSessionDescriptor } from '@al/client';
+
+/**
+ * The versioned envelope in which sessions are persisted.
+ */
+export interface AlPersistedSessionEnvelope {
+    version:number;
+    session:AIMSSessionDescriptor;
+}
+
+/**
+ * A migration converts a persisted value of a given version into the shape of the next version.
+ */
+export type AlSessionMigration = ( persisted:any ) => any;
+
+/**
+ * AlSessionMigrations knows how to recognize every historical shape of the persisted session and upgrade it to the current envelope.
+ *
+ * Version history:
+ *   1 - a bare AIMSSessionDescriptor (`{ authentication, acting?, boundLocationId? }`), as persisted by all releases prior to versioning.
+ *   2 - `{ version: 2, session: AIMSSessionDescriptor }`.
+ *
+ * To change the persisted format, register a migration from the current version; the new version becomes current automatically.
+ */
+export class AlSessionMigrations
+{
+    protected static migrations:{[fromVersion:number]:AlSessionMigration} = {
+        1: ( legacy:AIMSSessionDescriptor ) => ( { version: 2, session: legacy } )
+    };
+
+    /**
+     * Registers a migration from `fromVersion` to `fromVersion + 1`.
+     */
+    public static register( fromVersion:number, migration:AlSessionMigration ) {
+        AlSessionMigrations.migrations[fromVersion] = migration;
+    }
+
+    /**
+     * Retrieves the version that sessions are currently persisted as.
+     */
+    public static getCurrentVersion():number {
+        const versions = Object.keys( AlSessionMigrations.migrations ).map( version => parseInt( version, 10 ) );
+        return Math.max( ...versions ) + 1;
+    }
+
+    /**
+     * Identifies the version of a persisted value, or returns null if it isn't recognizable as a persisted session at all.
+     */
+    public static getVersion( persisted:any ):number {
+        if ( ! persisted || typeof( persisted ) !== 'object' ) {
+            return null;
+        }
+        if ( typeof( persisted.version ) === 'number' && persisted.hasOwnProperty( "session" ) ) {
+            return persisted.version;
+        }
+        if ( persisted.hasOwnProperty( "authentication" ) ) {
+            return 1;
+        }
+        return null;
+    }
+
+    /**
+     * Upgrades a persisted value to the current envelope format.  Throws if the value is unrecognizable, was written by a newer version
+     * of this library, or no migration path exists.
+     */
+    public static migrate( persisted:any ):AlPersistedSessionEnvelope {
+        let version = AlSessionMigrations.getVersion( persisted );
+        if ( version === null ) {
+            throw new Error( "The persisted data is not a recognizable session" );
+        }
+        const currentVersion = AlSessionMigrations.getCurrentVersion();
+        if ( version > currentVersion ) {
+            throw new Error( `The persisted session has version ${version}, which is newer than the supported version ${currentVersion}` );
+        }
+        let migrated = persisted;
+        while ( version < currentVersion ) {
+            if ( ! AlSessionMigrations.migrations.hasOwnProperty( version ) ) {
+                throw new Error( `No migration is available for persisted session version ${version}` );
+            }
+            migrated = AlSessionMigrations.migrations[version]( migrated );
+            version++;
+            if ( AlSessionMigrations.getVersion( migrated ) !== version ) {
+                throw new Error( `Migration of the persisted session to version ${version} produced unexpected output` );
+            }
+        }
+        return migrated;
+    }
+
+    /**
+     * Wraps a session descriptor in the current envelope format.
+     */
+    public static wrap( session:AIMSSessionDescriptor ):AlPersistedSessionEnvelope {
+        return {
+            session,
+            version: AlSessionMigrations.getCurrentVersion()
+        };
+    }
+}
@@ -0,0 +1,272 @@
+import { AlResponseValidationError } from '@al/common';
+
+export type AlSchemaType = "string"|"number"|"boolean"|"object"|"array"|"any";
+
+/**
+ * A minimal, dependency-free schema: the expected type of a value and, for objects and arrays, of its contents.
+ */
+export interface AlSchema {
+    type:AlSchemaType;
+
+    /**
+     * Whether the property must be present.  Defaults to false.
+     */
+    required?:boolean;
+
+    /**
+     * Whether null is acceptable in place of a value of the expected type.  Defaults to false.
+     */
+    nullable?:boolean;
+
+    /**
+     * For objects, the schemas of known properties.  Other properties are permitted.
+     */
+    properties?:{[propName:string]:AlSchema};
+
+    /**
+     * For objects used as maps, the schema every property value must match.
+     */
+    values?:AlSchema;
+
+    /**
+     * For arrays, the schema every item must match.
+     */
+    items?:AlSchema;
+}
+
+/**
+ * A single discrepancy between data and its schema.  `path` is a JSON path (e.g., `$.authentication.user.linked_users[2]`).  A violation is
+ * `critical` if it affects a value that is required all the way from the root; otherwise the data is usable despite it.
+ */
+export interface AlSchemaViolation {
+    path:string;
+    problem:string;
+    critical:boolean;
+}
+
+/**
+ * How violations are treated:
+ *   - "strict" rejects data with any violation.
+ *   - "lenient" rejects data with critical violations, and warns about the rest.
+ *   - "warn" never rejects data, but warns about every violation.
+ */
+export type AlSchemaValidationMode = "strict"|"lenient"|"warn";
+
+/**
+ * Validates data against an AlSchema, descending to any depth and reporting every violation rather than just the first.
+ */
+export class AlSchemaValidator
+{
+    constructor( public mode:AlSchemaValidationMode = "lenient" ) {
+    }
+
+    /**
+     * Lists every violation of a schema, without reporting or rejecting anything.
+     */
+    public static check( data:any, schema:AlSchema, path:string = "$", critical:boolean = true ):AlSchemaViolation[] {
+        const violations:AlSchemaViolation[] = [];
+        if ( data === null && schema.nullable ) {
+            return violations;
+        }
+        const actual = AlSchemaValidator.getType( data );
+        if ( schema.type !== "any" && actual !== schema.type ) {
+            violations.push( { path, critical, problem: `expected ${schema.type}${schema.nullable ? ' or null' : ''}, found ${actual}` } );
+            return violations;
+        }
+        if ( actual === "object" ) {
+            Object.entries<AlSchema>( schema.properties || {} ).forEach( ( [ propName, propSchema ] ) => {
+                const propPath = AlSchemaValidator.getPropertyPath( path, propName );
+                if ( ! data.hasOwnProperty( propName ) || data[propName] === undefined ) {
+                    if ( propSchema.required ) {
+                        violations.push( { critical, path: propPath, problem: "is missing" } );
+                    }
+                    return;
+                }
+                violations.push( ...AlSchemaValidator.check( data[propName], propSchema, propPath, critical && !! propSchema.required ) );
+            } );
+            if ( schema.values ) {
+                Object.keys( data ).forEach( propName => {
+                    violations.push( ...AlSchemaValidator.check( data[propName], schema.values, AlSchemaValidator.getPropertyPath( path, propName ), false ) );
+                } );
+            }
+        } else if ( actual === "array" && schema.items ) {
+            ( data as any[] ).forEach( ( item, index ) => {
+                violations.push( ...AlSchemaValidator.check( item, schema.items, `${path}[${index}]`, critical ) );
+            } );
+        }
+        return violations;
+    }
+
+    /**
+     * Describes violations in a single message, listing at most `limit` of them.
+     */
+    public static describe( subject:string, violations:AlSchemaViolation[], limit:number = 5 ):string {
+        const listed = violations.slice( 0, limit ).map( violation => `${violation.path} ${violation.problem}` ).join( '; ' );
+        const others = violations.length > limit ? ` (and ${violations.length - limit} more)` : '';
+        return `The provided data does not match the schema for ${subject}: ${listed}${others}`;
+    }
+
+    protected static getType( value:any ):string {
+        if ( value === null ) {
+            return "null";
+        }
+        if ( Array.isArray( value ) ) {
+            return "array";
+        }
+        if ( typeof( value ) === 'number' && isNaN( value ) ) {
+            return "NaN";
+        }
+        return typeof( value );
+    }
+
+    protected static getPropertyPath( path:string, propName:string ):string {
+        return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test( propName ) ? `${path}.${propName}` : `${path}[${JSON.stringify( propName )}]`;
+    }
+
+    /**
+     * Determines whether a violation causes data to be rejected in this validator's mode.
+     */
+    public isFatal( violation:AlSchemaViolation ):boolean {
+        return this.mode === "strict" || ( this.mode === "lenient" && violation.critical );
+    }
+
+    /**
+     * Validates data according to this validator's mode, throwing an AlResponseValidationError (whose `errors` are the fatal violations) if
+     * it is rejected, and warning about any other violations.
+     *
+     * @returns All violations found.
+     */
+    public validate( data:any, schema:AlSchema, subject:string ):AlSchemaViolation[] {
+        const violations = AlSchemaValidator.check( data, schema );
+        const fatal = violations.filter( violation => this.isFatal( violation ) );
+        if ( fatal.length > 0 ) {
+            throw new AlResponseValidationError( AlSchemaValidator.describe( subject, fatal ), fatal );
+        }
+        if ( violations.length > 0 ) {
+            console.warn( `Warning: ${AlSchemaValidator.describe( subject, violations )}`, violations );
+        }
+        return violations;
+    }
+}
+
+/**
+ * Schemas for the entities the session ingests.  Properties the session can't function without are required; the rest are checked only
+ * if they are present.
+ */
+export class AlSessionSchemas
+{
+    public static changeStamp:AlSchema = {
+        type: "object",
+        properties: {
+            at: { type: "number" },
+            by: { type: "string" }
+        }
+    };
+
+    public static user:AlSchema = {
+        type: "object",
+        properties: {
+            id: { type: "string", required: true },
+            name: { type: "string", required: true },
+            email: { type: "string", required: true },
+            account_id: { type: "string" },
+            active: { type: "boolean" },
+            locked: { type: "boolean" },
+            version: { type: "number" },
+            linked_users: { type: "array", required: true, items: { type: "object" } },
+            created: Object.assign( { required: true }, AlSessionSchemas.changeStamp ),
+            modified: Object.assign( { required: true }, AlSessionSchemas.changeStamp )
+        }
+    };
+
+    public static account:AlSchema = {
+        type: "object",
+        properties: {
+            id: { type: "string", required: true },
+            name: { type: "string", required: true },
+            active: { type: "boolean" },
+            version: { type: "number" },
+            accessible_locations: { type: "array", required: true, items: { type: "string" } },
+            default_location: { type: "string", required: true },
+            mfa_required: { type: "boolean" },
+            created: Object.assign( { required: true }, AlSessionSchemas.changeStamp ),
+            modified: Object.assign( { required: true }, AlSessionSchemas.changeStamp )
+        }
+    };
+
+    public static sessionDescriptor:AlSchema = {
+        type: "object",
+        properties: {
+            authentication: {
+                type: "object",
+                required: true,
+                properties: {
+                    token: { type: "string", required: true },
+                    token_expiration: { type: "number", required: true },
+                    user: Object.assign( { required: true }, AlSessionSchemas.user ),
+                    account: Object.assign( { required: true }, AlSessionSchemas.account )
+                }
+            },
+            acting: AlSessionSchemas.account,
+            boundLocationId: { type: "string", nullable: true }
+        }
+    };
+
+    /**
+     * A session descriptor from an external source (such as conduit or auth0), which may be missing the expiration, user and account that
+     * are filled in from the token.
+     */
+    public static proposedSessionDescriptor:AlSchema = {
+        type: "object",
+        properties: {
+            authentication: {
+                type: "object",
+                required: true,
+                properties: {
+                    token: { type: "string", required: true },
+                    token_expiration: { type: "number", nullable: true },
+                    user: Object.assign( { nullable: true }, AlSessionSchemas.user ),
+                    account: Object.assign( { nullable: true }, AlSessionSchemas.account )
+                }
+            },
+            acting: AlSessionSchemas.account,
+            boundLocationId: { type: "string", nullable: true }
+        }
+    };
+
+    public static entitlementRecord:AlSchema = {
+        type: "object",
+        properties: {
+            productId: { type: "string", required: true },
+            active: { type: "boolean" },
+            value_type: { type: "string" },
+            value: { type: "number" }
+        }
+    };
+
+    public static role:AlSchema = {
+        type: "object",
+        properties: {
+            id: { type: "string", required: true },
+            account_id: { type: "string" },
+            name: { type: "string" },
+            permissions: { type: "object", values: { type: "string" } }
+        }
+    };
+
+    public static consolidatedMetadata:AlSchema = {
+        type: "object",
+        properties: {
+            user: AlSessionSchemas.user,
+            primaryAccount: AlSessionSchemas.account,
+            actingAccount: Object.assign( { required: true }, AlSessionSchemas.account ),
+            managedAccounts: { type: "array", items: AlSessionSchemas.account },
+            primaryEntitlements: { type: "array", required: true, items: AlSessionSchemas.entitlementRecord },
+            effectiveEntitlements: { type: "array", required: true, items: AlSessionSchemas.entitlementRecord },
+            experiences: { type: "object", nullable: true },
+            endpointsData: { type: "object", values: { type: "string" } },
+            roles: { type: "array", items: AlSessionSchemas.role },
+            permissions: { type: "object", values: { type: "string" } }
+        }
+    };
+}
@@ -0,0 +1,163 @@
+import { AlSessionStorage } from '../types';
+
+/**
+ * Keeps session data in memory only.  Nothing survives a page reload or process exit, which makes this appropriate for kiosks and
+ * other deployments that must never persist tokens.
+ */
+export class AlMemorySessionStorage implements AlSessionStorage
+{
+    protected data:{[property:string]:any} = {};
+
+    public get( property:string, defaultValue:any = null ):any {
+        return this.data.hasOwnProperty( property ) ? this.data[property] : defaultValue;
+    }
+
+    public set( property:string, value:any ):this {
+        this.data[property] = JSON.parse( JSON.stringify( value ) );
+        return this;
+    }
+
+    public delete( property:string ):this {
+        delete this.data[property];
+        return this;
+    }
+
+    public destroy() {
+        this.data = {};
+    }
+}
+
+/**
+ * Persists session data to a Web Storage area (window.sessionStorage or window.localStorage), namespacing each property.
+ */
+export class AlWebSessionStorage implements AlSessionStorage
+{
+    constructor( public namespace:string,
+                 protected target:Storage ) {
+    }
+
+    public get( property:string, defaultValue:any = null ):any {
+        const raw = this.target.getItem( this.getKey( property ) );
+        if ( raw === null ) {
+            return defaultValue;
+        }
+        try {
+            return JSON.parse( raw );
+        } catch( e ) {
+            console.warn( `Ignoring malformed data in session storage key '${this.getKey( property )}'` );
+            return defaultValue;
+        }
+    }
+
+    public set( property:string, value:any ):this {
+        this.target.setItem( this.getKey( property ), JSON.stringify( value ) );
+        return this;
+    }
+
+    public delete( property:string ):this {
+        this.target.removeItem( this.getKey( property ) );
+        return this;
+    }
+
+    public destroy() {
+        const prefix = this.getKey( '' );
+        const keys:string[] = [];
+        for ( let i = 0; i < this.target.length; i++ ) {
+            const key = this.target.key( i );
+            if ( key && key.startsWith( prefix ) ) {
+                keys.push( key );
+            }
+        }
+        keys.forEach( key => this.target.removeItem( key ) );
+    }
+
+    protected getKey( property:string ):string {
+        return `${this.namespace}.${property}`;
+    }
+}
+
+/**
+ * Persists session data to window.sessionStorage, so that it survives reloads but is scoped to a single tab.
+ */
+export class AlTabSessionStorage extends AlWebSessionStorage
+{
+    constructor( namespace:string = "al_session" ) {
+        super( namespace, window.sessionStorage );
+    }
+}
+
+/**
+ * Persists session data to window.localStorage, so that it is shared by all tabs of the same origin.
+ */
+export class AlLocalSessionStorage extends AlWebSessionStorage
+{
+    constructor( namespace:string = "al_session" ) {
+        super( namespace, window.localStorage );
+    }
+}
+
+/**
+ * The subset of node's `fs` module used by AlFileSessionStorage.
+ */
+export interface AlFileSystem {
+    existsSync( path:string ):boolean;
+    readFileSync( path:string, encoding:string ):string;
+    writeFileSync( path:string, data:string, options?:any ):void;
+    unlinkSync( path:string ):void;
+}
+
+/**
+ * Persists session data to a JSON file, for node-based tooling.  Because this package is also bundled for browsers, node's `fs` module
+ * must be provided by the caller, e.g. `new AlFileSessionStorage( "./.al-session.json", require("fs") )`.
+ */
+export class AlFileSessionStorage implements AlSessionStorage
+{
+    constructor( public filePath:string,
+                 protected fs:AlFileSystem ) {
+    }
+
+    public get( property:string, defaultValue:any = null ):any {
+        const data = this.read();
+        return data.hasOwnProperty( property ) ? data[property] : defaultValue;
+    }
+
+    public set( property:string, value:any ):this {
+        const data = this.read();
+        data[property] = value;
+        this.write( data );
+        return this;
+    }
+
+    public delete( property:string ):this {
+        const data = this.read();
+        if ( data.hasOwnProperty( property ) ) {
+            delete data[property];
+            this.write( data );
+        }
+        return this;
+    }
+
+    public destroy() {
+        if ( this.fs.existsSync( this.filePath ) ) {
+            this.fs.unlinkSync( this.filePath );
+        }
+    }
+
+    protected read():{[property:string]:any} {
+        if ( ! this.fs.existsSync( this.filePath ) ) {
+            return {};
+        }
+        try {
+            const data = JSON.parse( this.fs.readFileSync( this.filePath, "utf8" ) );
+            return data && typeof( data ) === 'object' ? data : {};
+        } catch( e ) {
+            console.warn( `Ignoring malformed session file '${this.filePath}'` );
+            return {};
+        }
+    }
+
+    protected write( data:{[property:string]:any} ) {
+        //  Session files contain live tokens; keep them readable by their owner only
+        this.fs.writeFileSync( this.filePath, JSON.stringify( data ), { encoding: "utf8", mode: 0o600 } );
+    }
+}
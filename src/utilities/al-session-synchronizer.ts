@@ -0,0 +1,204 @@
+import { AIMSAccount, AIMSSessionDescriptor } from '@al/client';
+import { AlSubscriptionGroup } from '@al/common';
+import { AlSessionInstance } from '../al-session';
+import {
+    AlSessionStartedEvent,
+    AlSessionEndedEvent,
+    AlSessionTokenRefreshedEvent,
+    AlActingAccountChangedEvent,
+    AlSessionActivityEvent
+} from '../events';
+
+/**
+ * Describes a session change propagated between tabs.
+ */
+export interface AlSessionSyncMessage {
+    type:"session.started"|"session.ended"|"token.refreshed"|"acting.changed"|"activity";
+    origin:string;
+    channel:string;
+    timestamp:number;
+    session?:AIMSSessionDescriptor;
+    token?:string;
+    tokenExpiration?:number;
+    account?:AIMSAccount;
+}
+
+/**
+ * AlSessionSynchronizer propagates session start, logout, token refresh, acting account changes and user activity between browser tabs
+ * sharing the same origin.  It uses BroadcastChannel where available, and falls back on `storage` events otherwise.  Since that fallback
+ * passes messages through localStorage, it never carries credentials: without BroadcastChannel, session starts and token refreshes are not
+ * propagated.
+ *
+ * Sessions that end for any other reason (such as inactivity or an expired token) are not propagated.  Because activity is shared, a tab
+ * only goes idle once the user has been inactive in every tab.
+ *
+ * Changes received from other tabs are applied through the session's normal public interface, so the corresponding events
+ * (e.g., AlSessionEndedEvent and AlActingAccountChangedEvent) are raised locally as well.
+ */
+export class AlSessionSynchronizer
+{
+    /**
+     * Uniquely identifies this tab, so that a tab never applies its own broadcasts.
+     */
+    public static tabId = `tab-${Date.now()}-${Math.floor( Math.random() * 1000000 )}`;
+
+    protected broadcastChannel:BroadcastChannel = null;
+    protected subscriptions = new AlSubscriptionGroup();
+    protected applyingRemoteChange = false;
+    protected running = false;
+
+    constructor( public session:AlSessionInstance,
+                 public channelName:string = "al_session" ) {
+    }
+
+    public start() {
+        if ( this.running || typeof( window ) === 'undefined' ) {
+            return;
+        }
+        if ( typeof( BroadcastChannel ) !== 'undefined' ) {
+            this.broadcastChannel = new BroadcastChannel( this.channelName );
+            this.broadcastChannel.onmessage = ( event:MessageEvent ) => this.receive( event.data );
+        } else {
+            window.addEventListener( "storage", this.onStorageEvent, false );
+        }
+        this.subscriptions.manage(
+            this.session.notifyStream.attach( AlSessionStartedEvent, this.onSessionStarted ),
+            this.session.notifyStream.attach( AlSessionEndedEvent, this.onSessionEnded ),
+            this.session.notifyStream.attach( AlSessionTokenRefreshedEvent, this.onTokenRefreshed ),
+            this.session.notifyStream.attach( AlActingAccountChangedEvent, this.onActingAccountChanged ),
+            this.session.notifyStream.attach( AlSessionActivityEvent, this.onActivity )
+        );
+        this.running = true;
+    }
+
+    public stop() {
+        if ( ! this.running ) {
+            return;
+        }
+        this.subscriptions.cancelAll();
+        if ( this.broadcastChannel ) {
+            this.broadcastChannel.close();
+            this.broadcastChannel = null;
+        } else {
+            window.removeEventListener( "storage", this.onStorageEvent, false );
+        }
+        this.running = false;
+    }
+
+    public isRunning():boolean {
+        return this.running;
+    }
+
+    /**
+     * Applies a change broadcast by another tab.
+     */
+    public receive( message:AlSessionSyncMessage ) {
+        if ( ! message || typeof( message.type ) !== 'string' || message.origin === AlSessionSynchronizer.tabId || message.channel !== this.channelName ) {
+            return;
+        }
+        if ( this.session.isImpersonating() && message.type !== "session.ended" ) {
+            //  Impersonation is confined to this tab; only a logout elsewhere still applies
+            return;
+        }
+        this.applyingRemoteChange = true;
+        try {
+            switch( message.type ) {
+                case "session.started":
+                    if ( message.session && ( ! this.session.isActive() || this.session.getToken() !== message.session.authentication.token ) ) {
+                        this.session.setAuthentication( message.session )
+                            .catch( error => console.warn( "Failed to apply session started in another tab", error ) );
+                    }
+                    break;
+                case "session.ended":
+                    if ( this.session.isActive() ) {
+                        this.session.deactivateSession();
+                    }
+                    break;
+                case "token.refreshed":
+                    if ( this.session.isActive() && message.token && this.session.getToken() !== message.token ) {
+                        this.session.setTokenInfo( message.token, message.tokenExpiration );
+                    }
+                    break;
+                case "acting.changed":
+                    if ( this.session.isActive() && message.account && this.session.getActingAccountId() !== message.account.id ) {
+                        this.session.setActingAccount( message.account )
+                            .catch( error => console.warn( "Failed to apply acting account change from another tab", error ) );
+                    }
+                    break;
+                case "activity":
+                    if ( this.session.isActive() ) {
+                        this.session.recordActivity( message.timestamp );
+                    }
+                    break;
+            }
+        } finally {
+            this.applyingRemoteChange = false;
+        }
+    }
+
+    protected onSessionStarted = ( event:AlSessionStartedEvent ) => {
+        //  The acting account hasn't been committed yet when a session starts; it follows in its own "acting.changed" message
+        this.broadcast( { type: "session.started", session: { authentication: this.session.getSession().authentication } } );
+    }
+
+    protected onSessionEnded = ( event:AlSessionEndedEvent ) => {
+        if ( event.reason === "logout" ) {
+            this.broadcast( { type: "session.ended" } );
+        }
+    }
+
+    protected onTokenRefreshed = ( event:AlSessionTokenRefreshedEvent ) => {
+        this.broadcast( { type: "token.refreshed", token: event.token, tokenExpiration: event.tokenExpiration } );
+    }
+
+    protected onActingAccountChanged = ( event:AlActingAccountChangedEvent ) => {
+        this.broadcast( { type: "acting.changed", account: event.actingAccount } );
+    }
+
+    protected onActivity = ( event:AlSessionActivityEvent ) => {
+        this.broadcast( { type: "activity", timestamp: event.timestamp } );
+    }
+
+    protected onStorageEvent = ( event:StorageEvent ) => {
+        if ( event.key !== this.getStorageKey() || ! event.newValue ) {
+            return;
+        }
+        try {
+            this.receive( JSON.parse( event.newValue ) );
+        } catch( e ) {
+            console.warn( "Ignoring malformed session synchronization message", e );
+        }
+    }
+
+    protected broadcast( partial:Partial<AlSessionSyncMessage> ) {
+        if ( this.applyingRemoteChange ) {
+            //  Don't echo changes that originated in another tab
+            return;
+        }
+        if ( this.session.isImpersonating() && partial.type !== "session.ended" ) {
+            //  Don't leak an impersonated identity's token or acting account into other tabs
+            return;
+        }
+        const envelope = {
+            origin: AlSessionSynchronizer.tabId,
+            channel: this.channelName,
+            timestamp: Date.now()
+        };
+        const message = Object.assign( envelope, partial ) as AlSessionSyncMessage;
+        try {
+            if ( this.broadcastChannel ) {
+                this.broadcastChannel.postMessage( JSON.parse( JSON.stringify( message ) ) );
+            } else if ( typeof( localStorage ) !== 'undefined' && ! message.session && ! message.token ) {
+                //  Writing the message triggers a `storage` event in every other tab; removing it immediately keeps storage clean
+                localStorage.setItem( this.getStorageKey(), JSON.stringify( message ) );
+                localStorage.removeItem( this.getStorageKey() );
+            }
+        } catch( e ) {
+            console.warn( "Failed to broadcast session change to other tabs", e );
+        }
+    }
+
+    protected getStorageKey():string {
+        return `${this.channelName}_sync`;
+    }
+}
@@ -0,0 +1,79 @@
+import { AIMSAuthentication } from '@al/client';
+import { AlConduitClient } from './al-conduit-client';
+import { AlSessionDetector } from './al-session-detector';
+import { AlSessionTokenInfo, AlSessionTokenRefresher } from '../types';
+
+/**
+ * Renews a session's token by retrieving the shared session from conduit.  This works whenever another application (or
+ * conduit itself) has already renewed the token on the user's behalf.
+ */
+export class AlConduitTokenRefresher implements AlSessionTokenRefresher
+{
+    constructor( public conduit:AlConduitClient ) {
+    }
+
+    public async refresh( authentication:AIMSAuthentication ):Promise<AlSessionTokenInfo> {
+        const session = await this.conduit.getSession();
+        if ( ! session || ! session.authentication || typeof( session.authentication.token ) !== 'string' ) {
+            throw new Error( "Conduit does not have a session to refresh from" );
+        }
+        if ( session.authentication.token_expiration <= authentication.token_expiration ) {
+            throw new Error( "Conduit's session token is not newer than the current one" );
+        }
+        return {
+            token: session.authentication.token,
+            token_expiration: session.authentication.token_expiration
+        };
+    }
+}
+
+/**
+ * Renews a session's token by silently checking the user's auth0 session (via `checkSession` with `prompt: 'none'`).
+ */
+export class AlAuth0TokenRefresher implements AlSessionTokenRefresher
+{
+    constructor( public detector:AlSessionDetector,
+                 public timeout:number = 5000 ) {
+    }
+
+    public async refresh( authentication:AIMSAuthentication ):Promise<AlSessionTokenInfo> {
+        const authenticator = this.detector.getAuth0Authenticator();
+        if ( ! authenticator ) {
+            throw new Error( "Auth0 is not available; cannot refresh session token" );
+        }
+        const config = this.detector.getAuth0Config( { usePostMessage: true, prompt: 'none' } );
+        const token = await this.detector.getAuth0SessionToken( authenticator, config, this.timeout );
+        const tokenExpiration = this.detector.getTokenExpiration( token );
+        if ( ! tokenExpiration ) {
+            throw new Error( "Auth0 returned a token without a usable expiration" );
+        }
+        return {
+            token,
+            token_expiration: tokenExpiration
+        };
+    }
+}
+
+/**
+ * Attempts a series of refreshers in order, resolving with the first one that succeeds.
+ */
+export class AlChainedTokenRefresher implements AlSessionTokenRefresher
+{
+    public refreshers:AlSessionTokenRefresher[];
+
+    constructor( ...refreshers:AlSessionTokenRefresher[] ) {
+        this.refreshers = refreshers;
+    }
+
+    public async refresh( authentication:AIMSAuthentication ):Promise<AlSessionTokenInfo> {
+        let lastError:any = new Error( "No token refreshers are configured" );
+        for ( const refresher of this.refreshers ) {
+            try {
+                return await refresher.refresh( authentication );
+            } catch( e ) {
+                lastError = e;
+            }
+        }
+        throw lastError;
+    }
+}
@@ -1,3 +1,28 @@
 export { AlConduitClient } from './al-conduit-client';
 export { AlSessionDetector } from './al-session-detector';
 export { ISegmentAnalytics, AlSegmentClient, AlSegmentService } from './al-segment-client';
+export { AlConduitTokenRefresher, AlAuth0TokenRefresher, AlChainedTokenRefresher } from './al-session-token-refresher';
+export { AlDomActivitySource, AlSessionIdleMonitor } from './al-session-idle-monitor';
+export { AlSessionSyncMessage, AlSessionSynchronizer } from './al-session-synchronizer';
+export {
+    AlMemorySessionStorage, AlWebSessionStorage, AlTabSessionStorage, AlLocalSessionStorage,
+    AlFileSystem, AlFileSessionStorage
+} from './al-session-storage';
+export { AlSessionEncryptionScope, AlEncryptedSessionEnvelope, AlSessionCipher } from './al-session-cipher';
+export { AlPersistedSessionEnvelope, AlSessionMigration, AlSessionMigrations } from './al-session-migrations';
+export { AlSessionEnvironment } from './al-session-environment';
+export { AlJwtUtilities } from './al-jwt-utilities';
+export { AlActingAccountHistory } from './al-acting-account-history';
+export {
+    AlManagedAccountNode, AlManagedAccountTreeNode, AlManagedAccountPage, AlManagedAccountHierarchy
+} from './al-managed-account-hierarchy';
+export { AlSessionExpressionContext, AlSessionExpression } from './al-session-expression';
+export {
+    AlSessionGuardRequirements, AlSessionGuardOptions, AlSessionGuardDenialReason, AlSessionGuardOutcome, AlSessionGuard
+} from './al-session-guard';
+export { AlExperiencePreferences } from './al-experience-preferences';
+export { AlDeveloperOverrideStore } from './al-developer-overrides';
+export { AlResolutionDiff } from './al-resolution-diff';
+export { AlPermissionSet } from './al-permission-set';
+export { AlCachedResolution, AlResolutionCache } from './al-resolution-cache';
+export { AlSchemaType, AlSchema, AlSchemaViolation, AlSchemaValidationMode, AlSchemaValidator, AlSessionSchemas } from './al-session-schema';
@@ -0,0 +1,83 @@
+import { AlSessionInstance } from '../src/index';
+import { AlActingAccountHistory, AlMemorySessionStorage } from '../src/utilities';
+import { exampleSession, exampleActing } from './mocks/session-data.mocks';
+import { expect } from 'chai';
+import { describe, before } from 'mocha';
+import * as sinon from 'sinon';
+
+describe('AlActingAccountHistory', () => {
+    let history:AlActingAccountHistory;
+    let clock;
+    let account = ( id:string ) => Object.assign( {}, exampleActing, { id, name: `Account ${id}` } );
+    let ids = ( userId:string ) => history.list( userId ).map( entry => entry.account.id );
+
+    beforeEach( () => {
+        clock = sinon.useFakeTimers( 1000000 );
+        history = new AlActingAccountHistory( new AlMemorySessionStorage(), 3 );
+    } );
+    afterEach( () => {
+        clock.restore();
+    } );
+
+    it( "should list accounts from most to least recently used, separately for each user", () => {
+        [ "1", "2", "3", "1" ].forEach( id => {
+            history.record( "user-a", account( id ) );
+            clock.tick( 1000 );
+        } );
+        history.record( "user-b", account( "9" ) );
+        expect( ids( "user-a" ) ).to.deep.equal( [ "1", "3", "2" ] );
+        expect( ids( "user-b" ) ).to.deep.equal( [ "9" ] );
+    } );
+
+    it( "should evict the least recently used accounts beyond its limit, but never pinned accounts", () => {
+        history.record( "user-a", account( "1" ) );
+        history.pin( "user-a", "1" );
+        [ "2", "3", "4", "5" ].forEach( id => {
+            clock.tick( 1000 );
+            history.record( "user-a", account( id ) );
+        } );
+        expect( ids( "user-a" ) ).to.deep.equal( [ "1", "5", "4", "3" ] );
+    } );
+
+    it( "should pin and unpin accounts", () => {
+        history.record( "user-a", account( "1" ) );
+        clock.tick( 1000 );
+        history.record( "user-a", account( "2" ) );
+        expect( history.pin( "user-a", "1" ) ).to.equal( true );
+        expect( history.pin( "user-a", "unknown" ) ).to.equal( false );
+        expect( history.pin( "user-a", account( "7" ) ) ).to.equal( true );
+        expect( ids( "user-a" ) ).to.deep.equal( [ "1", "7", "2" ] );
+        expect( history.list( "user-a" )[0].pinned ).to.equal( true );
+
+        expect( history.unpin( "user-a", "1" ) ).to.equal( true );
+        expect( history.unpin( "user-a", "1" ) ).to.equal( false );
+        expect( ids( "user-a" ) ).to.deep.equal( [ "7", "2", "1" ] );
+    } );
+} );
+
+describe('AlSessionInstance recent acting accounts', () => {
+    let session:AlSessionInstance;
+
+    beforeEach( () => {
+        session = new AlSessionInstance( null, { resolveAccountMetadata: false, storage: new AlMemorySessionStorage(), recentActingAccountsStorage: new AlMemorySessionStorage() } );
+    } );
+    afterEach( () => {
+        session.deactivateSession();
+    } );
+
+    it( "should record acting accounts as they are set and remember them across logins", async () => {
+        expect( session.getRecentActingAccounts() ).to.deep.equal( [] );
+        await session.setAuthentication( exampleSession );
+        await session.setActingAccount( exampleActing );
+        expect( session.getRecentActingAccounts().map( entry => entry.account.id ) ).to.deep.equal( [ exampleActing.id, exampleSession.authentication.account.id ] );
+        expect( session.pinActingAccount( exampleSession.authentication.account.id ) ).to.equal( true );
+
+        session.deactivateSession();
+        expect( session.getRecentActingAccounts() ).to.deep.equal( [] );
+        await session.setAuthentication( exampleSession );
+        let recent = session.getRecentActingAccounts();
+        expect( recent[0].account.id ).to.equal( exampleSession.authentication.account.id );
+        expect( recent[0].pinned ).to.equal( true );
+        expect( session.unpinActingAccount( exampleSession.authentication.account.id ) ).to.equal( true );
+    } );
+} );
@@ -0,0 +1,44 @@
+import { AlDeveloperOverrideStore, AlMemorySessionStorage, AlExperienceTree } from '../src/index';
+import { AlEntitlementCollection } from '@al/subscriptions';
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+describe('AlDeveloperOverrideStore', () => {
+    it( "should parse the compact representation and query string parameter", () => {
+        expect( AlDeveloperOverrideStore.parse( "+tmc, -lm_essentials,cloud_defender,experience:navigation.layout=beta" ) ).to.deep.equal( {
+            grantEntitlements: [ "tmc", "cloud_defender" ],
+            revokeEntitlements: [ "lm_essentials" ],
+            experiences: { "navigation.layout": "beta" }
+        } );
+        expect( AlDeveloperOverrideStore.fromQueryString( "?foo=bar&al_overrides=%2Btmc,-lm_essentials" ) ).to.deep.equal( {
+            grantEntitlements: [ "tmc" ],
+            revokeEntitlements: [ "lm_essentials" ],
+            experiences: {}
+        } );
+        expect( AlDeveloperOverrideStore.fromQueryString( "?al_overrides=clear" ) ).to.equal( null );
+        expect( AlDeveloperOverrideStore.fromQueryString( "?foo=bar" ) ).to.equal( undefined );
+    } );
+
+    it( "should grant and revoke entitlements without modifying the original collection", () => {
+        const original = AlEntitlementCollection.fromArray( [ "lm_essentials", "cloud_insight" ] );
+        const overridden = AlDeveloperOverrideStore.applyEntitlements( original, { grantEntitlements: [ "tmc" ], revokeEntitlements: [ "lm_essentials" ] } );
+        expect( overridden.getActiveEntitlementKeys().sort() ).to.deep.equal( [ "cloud_insight", "tmc" ] );
+        expect( original.getActiveEntitlementKeys().sort() ).to.deep.equal( [ "cloud_insight", "lm_essentials" ] );
+    } );
+
+    it( "should select or replace experiences", () => {
+        const experiences = new AlExperienceTree( { navigation: { available: [ "legacy" ], selected: "legacy" } } );
+        AlDeveloperOverrideStore.applyExperiences( experiences, { experiences: { navigation: "beta", "dashboards.layout": { available: [ "grid" ], selected: "grid" } } } );
+        expect( experiences.query( "navigation" ) ).to.deep.equal( { available: [ "legacy", "beta" ], selected: "beta" } );
+        expect( experiences.query( "dashboards.layout.selected" ) ).to.equal( "grid" );
+    } );
+
+    it( "should store, retrieve and clear overrides", () => {
+        const store = new AlDeveloperOverrideStore( new AlMemorySessionStorage() );
+        expect( store.get() ).to.equal( null );
+        store.set( { grantEntitlements: [ "tmc" ] } );
+        expect( store.get() ).to.deep.equal( { grantEntitlements: [ "tmc" ] } );
+        store.set( { grantEntitlements: [] } );
+        expect( store.get() ).to.equal( null );
+    } );
+} );
@@ -0,0 +1,83 @@
+import { AlSessionInstance } from '../src/index';
+import { AlManagedAccountHierarchy, AlMemorySessionStorage } from '../src/utilities';
+import { AIMSClient } from '@al/aims';
+import { exampleSession, exampleActing } from './mocks/session-data.mocks';
+import { expect } from 'chai';
+import { describe, before } from 'mocha';
+import * as sinon from 'sinon';
+
+describe('AlManagedAccountHierarchy', () => {
+    let account = ( id:string, name:string ) => Object.assign( {}, exampleActing, { id, name } );
+    let root = account( "1", "Root MSSP" );
+    let relationships = {
+        "1": [ account( "2", "Acme Security" ), account( "3", "Bravo Holdings" ) ],
+        "2": [ account( "4", "Acme Retail" ), account( "5", "Acme Logistics" ) ],
+        "3": [ account( "5", "Acme Logistics" ) ],
+        "4": [ account( "6", "Acme Retail East" ) ]
+    };
+    let loader = ( accountId:string ) => Promise.resolve( relationships[accountId] || [] );
+
+    it( "should load one level by default", async () => {
+        let hierarchy = await AlManagedAccountHierarchy.load( root, loader );
+        expect( hierarchy.getAccounts().map( a => a.id ) ).to.deep.equal( [ "2", "3" ] );
+    } );
+
+    it( "should load deeper levels and expose parent/child relationships", async () => {
+        let hierarchy = await AlManagedAccountHierarchy.load( root, loader, Infinity, 2 );
+        expect( hierarchy.getCount() ).to.equal( 5 );
+        expect( hierarchy.getChildren().map( a => a.id ) ).to.deep.equal( [ "2", "3" ] );
+        expect( hierarchy.getChildren( "2" ).map( a => a.id ) ).to.deep.equal( [ "4", "5" ] );
+        expect( hierarchy.getChildren( "3" ) ).to.deep.equal( [] );             //  "5" was already found beneath "2"
+        expect( hierarchy.getParent( "6" ).id ).to.equal( "4" );
+        expect( hierarchy.getParent( "1" ) ).to.equal( null );
+        expect( hierarchy.getAncestors( "6" ).map( a => a.id ) ).to.deep.equal( [ "4", "2", "1" ] );
+        expect( hierarchy.getDescendants( "2" ).map( a => a.id ) ).to.deep.equal( [ "4", "5", "6" ] );
+        expect( hierarchy.getNode( "6" ).depth ).to.equal( 3 );
+        expect( hierarchy.getAccount( "5" ).name ).to.equal( "Acme Logistics" );
+        expect( hierarchy.getAccount( "nope" ) ).to.equal( null );
+        expect( hierarchy.getTree()[0].children[0].children[0].account.id ).to.equal( "6" );
+    } );
+
+    it( "should search and paginate", async () => {
+        let hierarchy = await AlManagedAccountHierarchy.load( root, loader, Infinity );
+        let page = hierarchy.search( "acme", 1, 2 );
+        expect( page.total ).to.equal( 4 );
+        expect( page.accounts.map( a => a.id ) ).to.deep.equal( [ "4", "5" ] );
+        expect( hierarchy.search( "6" ).accounts.map( a => a.id ) ).to.deep.equal( [ "6" ] );
+        expect( hierarchy.getPage( 4, 10 ).accounts.map( a => a.id ) ).to.deep.equal( [ "6" ] );
+    } );
+} );
+
+describe('AlSessionInstance managed account caching', () => {
+    let session:AlSessionInstance;
+    let managedAccountsStub;
+
+    beforeEach( async () => {
+        session = new AlSessionInstance( null, { resolveAccountMetadata: false, storage: new AlMemorySessionStorage() } );
+        managedAccountsStub = sinon.stub( AIMSClient, 'getManagedAccounts' ).returns( Promise.resolve( [ exampleActing ] ) );
+        await session.setAuthentication( exampleSession );
+    } );
+    afterEach( () => {
+        session.deactivateSession();
+        sinon.restore();
+    } );
+
+    it( "should cache the hierarchy until the acting account changes", async () => {
+        expect( await session.getManagedAccounts() ).to.deep.equal( [ exampleActing ] );
+        let hierarchy = await session.getManagedAccountHierarchy();
+        expect( hierarchy.getAccount( exampleActing.id ) ).to.deep.equal( exampleActing );
+        expect( managedAccountsStub.callCount ).to.equal( 1 );
+
+        await session.setActingAccount( exampleActing );
+        await session.getManagedAccounts();
+        expect( managedAccountsStub.callCount ).to.equal( 2 );
+        expect( managedAccountsStub.args[1][0] ).to.equal( exampleActing.id );
+    } );
+
+    it( "should reload the hierarchy once its TTL has elapsed", async () => {
+        session.setOptions( { managedAccountsCacheTTL: 0 } );
+        await session.getManagedAccounts();
+        await session.getManagedAccounts();
+        expect( managedAccountsStub.callCount ).to.equal( 2 );
+    } );
+} );
@@ -0,0 +1,36 @@
+import { AlPermissionSet } from '../src/index';
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+describe('AlPermissionSet', () => {
+    it( "should match permissions segment by segment, with wildcards", () => {
+        expect( AlPermissionSet.matches( "aims:own:manage:users", "aims:own:manage:users" ) ).to.equal( true );
+        expect( AlPermissionSet.matches( "aims:own:*:users", "aims:own:manage:users" ) ).to.equal( true );
+        expect( AlPermissionSet.matches( "aims:*", "aims:own:manage:users" ) ).to.equal( true );
+        expect( AlPermissionSet.matches( "*", "aims:users:create" ) ).to.equal( true );
+        expect( AlPermissionSet.matches( "aims:own:*:users", "aims:own:manage:roles" ) ).to.equal( false );
+        expect( AlPermissionSet.matches( "aims:own:manage", "aims:own:manage:users" ) ).to.equal( false );
+        expect( AlPermissionSet.matches( "aims:own:manage:users", "aims:own:manage" ) ).to.equal( false );
+    } );
+
+    it( "should grant permissions that are allowed and not denied", () => {
+        const permissions = new AlPermissionSet( { "*:own:*:*": "allowed", "aims:own:grant:*": "denied" } );
+        expect( permissions.has( "assets:own:get:assets" ) ).to.equal( true );
+        expect( permissions.has( "aims:own:grant:roles" ) ).to.equal( false );
+        expect( permissions.has( "aims:managed:get:users" ) ).to.equal( false );
+        expect( new AlPermissionSet().has( "aims:own:get:users" ) ).to.equal( false );
+    } );
+
+    it( "should import permission responses and combine roles", () => {
+        expect( AlPermissionSet.import( { permissions: { "aims:*": "allowed" } } ).has( "aims:own:get:users" ) ).to.equal( true );
+        expect( AlPermissionSet.import( [ "aims:*" ] ).getAllowed() ).to.deep.equal( [ "aims:*" ] );
+        expect( AlPermissionSet.import( null ).getAllowed() ).to.deep.equal( [] );
+
+        const combined = AlPermissionSet.fromRoles( <any[]>[
+            { permissions: { "aims:own:*:*": "allowed", "aims:own:grant:*": "denied" } },
+            { permissions: { "aims:own:grant:*": "allowed", "assets:own:*:*": "allowed" } }
+        ] );
+        expect( combined.has( "assets:own:list:hosts" ) ).to.equal( true );
+        expect( combined.has( "aims:own:grant:roles" ) ).to.equal( false );
+    } );
+} );
@@ -0,0 +1,48 @@
+import { AlResolutionDiff, AlActingAccountResolvedEvent, AlExperienceTree } from '../src/index';
+import { AlEntitlementCollection } from '@al/subscriptions';
+import { exampleSession, exampleActing } from './mocks/session-data.mocks';
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+describe('AlResolutionDiff', () => {
+    const resolution = ( account:any, entitlements:string[], primaryEntitlements:string[], experiences:any = {} ) => {
+        return new AlActingAccountResolvedEvent( account,
+                                                 AlEntitlementCollection.fromArray( entitlements ),
+                                                 AlEntitlementCollection.fromArray( primaryEntitlements ),
+                                                 new AlExperienceTree( experiences ) );
+    };
+
+    it( "should report everything as gained when there was no previous resolution", () => {
+        const diff = AlResolutionDiff.compute( null, resolution( exampleActing, [ "tmc" ], [ "tmc" ] ), null, "defender-us-denver" );
+        expect( diff.previousAccount ).to.equal( null );
+        expect( diff.accountChanged ).to.equal( true );
+        expect( diff.entitlementsGained ).to.deep.equal( [ "tmc" ] );
+        expect( diff.entitlementsLost ).to.deep.equal( [] );
+        expect( diff.datacenterChanged ).to.equal( true );
+    } );
+
+    it( "should describe entitlement, experience and datacenter changes", () => {
+        const previous = resolution( exampleSession.authentication.account, [ "tmc", "lm_essentials" ], [ "tmc" ],
+                                     { navigation: { available: [ "legacy", "beta" ], selected: "legacy" }, search: { available: [ "v1" ], selected: "v1" } } );
+        const current = resolution( exampleActing, [ "tmc", "cloud_defender" ], [ "tmc" ],
+                                    { navigation: { available: [ "legacy", "beta" ], selected: "beta" }, reports: { available: [ "v2" ], selected: "v2" } } );
+        const diff = AlResolutionDiff.compute( previous, current, "defender-us-denver", "insight-us-virginia" );
+        expect( diff.previousAccount ).to.equal( exampleSession.authentication.account );
+        expect( diff.accountChanged ).to.equal( true );
+        expect( diff.entitlementsGained ).to.deep.equal( [ "cloud_defender" ] );
+        expect( diff.entitlementsLost ).to.deep.equal( [ "lm_essentials" ] );
+        expect( diff.primaryEntitlementsGained ).to.deep.equal( [] );
+        expect( diff.experiencesChanged ).to.deep.equal( [
+            { path: "navigation", previous: "legacy", selected: "beta" },
+            { path: "reports", previous: null, selected: "v2" },
+            { path: "search", previous: "v1", selected: null }
+        ] );
+        expect( diff.datacenterChanged ).to.equal( true );
+        expect( AlResolutionDiff.isEmpty( diff ) ).to.equal( false );
+    } );
+
+    it( "should recognize an unchanged resolution", () => {
+        const diff = AlResolutionDiff.compute( resolution( exampleActing, [ "tmc" ], [] ), resolution( exampleActing, [ "tmc" ], [] ), "defender-us-denver", "defender-us-denver" );
+        expect( AlResolutionDiff.isEmpty( diff ) ).to.equal( true );
+    } );
+} );
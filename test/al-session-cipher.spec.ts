@@ -0,0 +1,148 @@
+import { AlSessionInstance, AlSessionRehydrationFailedEvent, AlSessionEncryptionUnavailableEvent } from '../src/index';
+import { AlSessionCipher, AlMemorySessionStorage } from '../src/utilities';
+import { exampleSession } from './mocks/session-data.mocks';
+import { expect } from 'chai';
+import { describe, before } from 'mocha';
+import * as sinon from 'sinon';
+
+describe('AlSessionCipher', () => {
+    let cipher:AlSessionCipher;
+
+    beforeEach( () => {
+        cipher = new AlSessionCipher( "tab", "al_session_cipher_test" );
+    } );
+
+    afterEach( () => {
+        return cipher.destroyKey();
+    } );
+
+    it( "should round-trip data through an encrypted envelope", async () => {
+        let envelope = await cipher.encrypt( exampleSession );
+        expect( AlSessionCipher.isEnvelope( envelope ) ).to.equal( true );
+        expect( envelope.data ).to.not.contain( exampleSession.authentication.token );
+        expect( await cipher.hasKey() ).to.equal( true );
+        expect( await cipher.decrypt( envelope ) ).to.deep.equal( exampleSession );
+    } );
+
+    it( "should keep its key out of Web Storage and out of reach of script", async () => {
+        await cipher.encrypt( exampleSession );
+        const stored = [ window.localStorage, window.sessionStorage ].map( webStorage => Object.keys( webStorage ).map( name => webStorage.getItem( name ) ).join() );
+        expect( stored.join() ).to.not.contain( '"kty"' );
+        expect( ( await cipher['getKey']( false ) ).extractable ).to.equal( false );
+
+        await cipher.destroyKey();
+        expect( await cipher.hasKey() ).to.equal( false );
+    } );
+
+    it( "should reject envelopes that have been altered", async () => {
+        let envelope = await cipher.encrypt( exampleSession );
+        let bytes = atob( envelope.data ).split( '' );
+        bytes[4] = String.fromCharCode( bytes[4].charCodeAt( 0 ) ^ 1 );
+        envelope.data = btoa( bytes.join( '' ) );
+        let rejected = false;
+        await cipher.decrypt( envelope ).catch( () => { rejected = true; } );
+        expect( rejected ).to.equal( true );
+    } );
+
+    it( "should not decrypt envelopes produced for a different namespace", async () => {
+        let envelope = await cipher.encrypt( exampleSession );
+        let other = new AlSessionCipher( "tab", "al_session_other_test" );
+        let rejected = false;
+        await other.decrypt( envelope ).catch( () => { rejected = true; } );
+        expect( rejected ).to.equal( true );
+    } );
+} );
+
+describe('AlSessionInstance with encrypted persistence', () => {
+    let storage:AlMemorySessionStorage;
+
+    beforeEach( () => {
+        storage = new AlMemorySessionStorage();
+        sinon.stub( console, 'warn' );
+    } );
+
+    afterEach( () => {
+        sinon.restore();
+        return new AlSessionCipher( "tab" ).destroyKey();
+    } );
+
+    it( "should persist an encrypted envelope and reinstate it", async () => {
+        let session = new AlSessionInstance( null, { resolveAccountMetadata: false, storage, encryptPersistence: "tab" } );
+        await session.setAuthentication( exampleSession );
+        await session['persistenceQueue'];
+        expect( AlSessionCipher.isEnvelope( storage.get( "session" ) ) ).to.equal( true );
+
+        let rehydrated = new AlSessionInstance( null, { resolveAccountMetadata: false, storage, encryptPersistence: "tab" } );
+        await rehydrated.resolved();
+        expect( rehydrated.getToken() ).to.equal( exampleSession.authentication.token );
+        rehydrated.dispose();
+        session.dispose();
+    } );
+
+    it( "should discard a tampered session and emit AlSessionRehydrationFailedEvent", async () => {
+        let session = new AlSessionInstance( null, { resolveAccountMetadata: false, storage, encryptPersistence: "tab" } );
+        await session.setAuthentication( exampleSession );
+        await session['persistenceQueue'];
+        let envelope = storage.get( "session" );
+        envelope.iv = btoa( "xxxxxxxxxxxx" );
+        storage.set( "session", envelope );
+
+        let rehydrated = new AlSessionInstance( null, { resolveAccountMetadata: false, storage, encryptPersistence: "tab" } );
+        let failure = await new Promise<AlSessionRehydrationFailedEvent>( resolve => {
+            rehydrated.notifyStream.attach( AlSessionRehydrationFailedEvent, resolve );
+        } );
+        expect( failure.reason ).to.equal( "tampered" );
+        expect( rehydrated.isActive() ).to.equal( false );
+        expect( storage.get( "session" ) ).to.equal( null );
+        rehydrated.dispose();
+        session.dispose();
+    } );
+
+    it( "should leave a session encrypted with another tab's key in place", async () => {
+        let session = new AlSessionInstance( null, { resolveAccountMetadata: false, storage, encryptPersistence: "tab" } );
+        await session.setAuthentication( exampleSession );
+        await session['persistenceQueue'];
+        let envelope = storage.get( "session" );
+
+        const tabIdName = new AlSessionCipher( "tab" )['getTabIdName']();
+        const tabId = window.sessionStorage.getItem( tabIdName );
+        window.sessionStorage.removeItem( tabIdName );
+        let failures = 0;
+        let rehydrated:AlSessionInstance;
+        try {
+            rehydrated = new AlSessionInstance( null, { resolveAccountMetadata: false, storage, encryptPersistence: "tab" } );
+            rehydrated.notifyStream.attach( AlSessionRehydrationFailedEvent, () => failures++ );
+            await rehydrated['rehydration'];
+        } finally {
+            window.sessionStorage.setItem( tabIdName, tabId );
+        }
+        expect( rehydrated.isActive() ).to.equal( false );
+        expect( failures ).to.equal( 0 );
+        expect( storage.get( "session" ) ).to.deep.equal( envelope );
+        rehydrated.dispose();
+        session.dispose();
+    } );
+
+    it( "should refuse to reinstate a plaintext session once encryption is required", async () => {
+        storage.set( "session", exampleSession );
+        let rehydrated = new AlSessionInstance( null, { resolveAccountMetadata: false, storage, encryptPersistence: "tab" } );
+        let failure = await new Promise<AlSessionRehydrationFailedEvent>( resolve => {
+            rehydrated.notifyStream.attach( AlSessionRehydrationFailedEvent, resolve );
+        } );
+        expect( failure.reason ).to.equal( "unencrypted" );
+        expect( rehydrated.isActive() ).to.equal( false );
+        rehydrated.dispose();
+    } );
+
+    it( "should announce that the session can't be persisted when encryption is unavailable", async () => {
+        sinon.stub( AlSessionCipher, 'isSupported' ).returns( false );
+        let session = new AlSessionInstance( null, { resolveAccountMetadata: false, storage, encryptPersistence: "tab" } );
+        let unavailable = await new Promise<AlSessionEncryptionUnavailableEvent>( resolve => {
+            session.notifyStream.attach( AlSessionEncryptionUnavailableEvent, resolve );
+        } );
+        expect( unavailable.scope ).to.equal( "tab" );
+        await session.setAuthentication( exampleSession );
+        expect( storage.get( "session" ) ).to.equal( null );
+        session.dispose();
+    } );
+} );
@@ -0,0 +1,60 @@
+import { ALSession, AlSessionInstance } from '../src/index';
+import { AlSessionEnvironment, AlJwtUtilities, AlMemorySessionStorage, AlConduitClient, AlSessionDetector } from '../src/utilities';
+import { expect } from 'chai';
+import { describe, before } from 'mocha';
+import * as sinon from 'sinon';
+
+describe('AlJwtUtilities', () => {
+    describe( ".decodePayload()", () => {
+        it( "should decode base64url payloads, including multibyte characters", () => {
+            //  {"exp":5,"name":"Zoë ✓ ~~~ ???>>>"}, base64url encoded
+            let token = "header.eyJleHAiOjUsIm5hbWUiOiJab8OrIOKckyB-fn4gPz8_Pj4-In0.signature";
+            expect( AlJwtUtilities.decodePayload( token ) ).to.deep.equal( { exp: 5, name: "Zoë ✓ ~~~ ???>>>" } );
+        } );
+        it( "should return null for malformed tokens", () => {
+            expect( AlJwtUtilities.decodePayload( "totally wrong" ) ).to.equal( null );
+            expect( AlJwtUtilities.decodePayload( "blahblahblah.blahblahblah.blahblahblah" ) ).to.equal( null );
+            expect( AlJwtUtilities.decodePayload( "header.!!!.signature" ) ).to.equal( null );
+        } );
+    } );
+    describe( ".getExpiration()", () => {
+        it( "should extract the `exp` claim", () => {
+            expect( AlJwtUtilities.getExpiration( "blahblahblah.eyJleHAiOjEwMDAwMDAwLCJzb21ldGhpbmcgZWxzZSI6ImhhaGEifQ==.blahblahblah" ) ).to.equal( 10000000 );
+            expect( AlJwtUtilities.getExpiration( "blahblahblah.eyJleHBpcmF0aW9uIjoxMDAwMDAwMCwia2V2aW4iOiJ3YXMgaGVyZSJ9.blahblahblah" ) ).to.equal( 0 );
+        } );
+    } );
+} );
+
+describe('In a headless environment', () => {
+    beforeEach( () => {
+        AlSessionEnvironment.setHeadless( true );
+        sinon.stub( console, 'warn' );
+    } );
+    afterEach( () => {
+        AlSessionEnvironment.setHeadless( null );
+        sinon.restore();
+    } );
+
+    it( "AlSessionInstance should keep session data in memory", () => {
+        let session = new AlSessionInstance();
+        expect( session['storage'] ).to.be.an.instanceOf( AlMemorySessionStorage );
+    } );
+
+    it( "AlConduitClient should reject requests rather than waiting for an iframe", async () => {
+        let conduit = new AlConduitClient();
+        let rejected = false;
+        await conduit.getSession().catch( () => { rejected = true; } );
+        expect( rejected ).to.equal( true );
+    } );
+
+    it( "AlSessionDetector should resolve false without consulting conduit or auth0", async () => {
+        ALSession.deactivateSession();
+        let conduit = new AlConduitClient();
+        let getSessionSpy = sinon.spy( conduit, 'getSession' );
+        let detector = new AlSessionDetector( conduit, true );
+        let result = await detector.detectSession();
+        expect( result ).to.equal( false );
+        expect( getSessionSpy.callCount ).to.equal( 0 );
+        expect( () => detector.forceAuthentication() ).to.throw();
+    } );
+} );
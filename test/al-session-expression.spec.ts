@@ -0,0 +1,68 @@
+import { AlSessionExpression, AlSessionExpressionContext } from '../src/utilities';
+import { AlSessionExpressionError } from '../src/errors';
+import { AlExperienceTree } from '../src/types';
+import { AlEntitlementCollection } from '@al/subscriptions';
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+describe('AlSessionExpression', () => {
+    const context:AlSessionExpressionContext = {
+        entitlements: AlEntitlementCollection.fromArray( [ "cloud_defender", "tmc" ] ),
+        primaryEntitlements: AlEntitlementCollection.fromArray( [ "lm_essentials" ] ),
+        experiences: new AlExperienceTree( { navigation: { available: [ "classic", "beta" ], selected: "beta" }, theme: "dark" } )
+    };
+    const evaluate = ( expression:string ) => AlSessionExpression.compile( expression ).evaluate( context );
+
+    it( "should evaluate entitlement terms combined with operators and parentheses", () => {
+        expect( evaluate( "cloud_defender" ) ).to.equal( true );
+        expect( evaluate( "lm_essentials" ) ).to.equal( false );
+        expect( evaluate( "cloud_defender&(tmc|!lm_essentials)" ) ).to.equal( true );
+        expect( evaluate( "cloud_defender & !tmc" ) ).to.equal( false );
+        expect( evaluate( "lm_essentials | tmc & cloud_defender" ) ).to.equal( true );
+        expect( evaluate( "!!tmc" ) ).to.equal( true );
+    } );
+
+    it( "should evaluate primary: terms against the primary account's entitlements", () => {
+        expect( evaluate( "primary:lm_essentials" ) ).to.equal( true );
+        expect( evaluate( "primary:tmc" ) ).to.equal( false );
+        expect( evaluate( "tmc&primary:lm_essentials" ) ).to.equal( true );
+    } );
+
+    it( "should evaluate experience: predicates", () => {
+        expect( evaluate( "experience:navigation=beta" ) ).to.equal( true );
+        expect( evaluate( "experience:navigation=classic" ) ).to.equal( false );
+        expect( evaluate( "experience:theme=dark" ) ).to.equal( true );
+        expect( evaluate( "experience:navigation" ) ).to.equal( true );
+        expect( evaluate( "experience:nonexistent.path" ) ).to.equal( false );
+        expect( evaluate( "tmc&!experience:navigation=classic" ) ).to.equal( true );
+    } );
+
+    it( "should cache compiled expressions", () => {
+        expect( AlSessionExpression.compile( "tmc|cloud_defender" ) ).to.equal( AlSessionExpression.compile( "tmc|cloud_defender" ) );
+    } );
+
+    it( "should describe syntax errors with their position", () => {
+        const failures:{[expression:string]:number} = {
+            "": 0,
+            "tmc&": 4,
+            "(tmc|cloud_defender": 19,
+            "tmc)": 3,
+            "tmc cloud_defender": 4,
+            "primary:": 8,
+            "experience:navigation=": 22,
+            "bogus:tmc": 0,
+            "tmc&#hash": 4
+        };
+        Object.keys( failures ).forEach( expression => {
+            let error:any;
+            try {
+                AlSessionExpression.compile( expression );
+            } catch( e ) {
+                error = e;
+            }
+            expect( error, expression ).to.be.an.instanceOf( AlSessionExpressionError );
+            expect( error.position, expression ).to.equal( failures[expression] );
+            expect( error.message ).to.contain( `"${expression}"` );
+        } );
+    } );
+} );
@@ -0,0 +1,58 @@
+import { AlSessionInstance, AlSessionGuard, AlMemorySessionStorage, AlSessionExpressionError } from '../src/index';
+import { AIMSClient } from '@al/aims';
+import { SubscriptionsClient, AlEntitlementCollection } from '@al/subscriptions';
+import { exampleSession, exampleActing } from './mocks/session-data.mocks';
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import * as sinon from 'sinon';
+
+describe('AlSessionGuard', () => {
+    let session:AlSessionInstance;
+
+    beforeEach( () => {
+        session = new AlSessionInstance( null, { storage: new AlMemorySessionStorage() } );
+        sinon.stub( AIMSClient, 'getAccountDetails' ).returns( Promise.resolve( exampleActing ) );
+        sinon.stub( AIMSClient, 'getManagedAccounts' ).returns( Promise.resolve( [] ) );
+        sinon.stub( SubscriptionsClient, 'getEntitlements' ).returns( Promise.resolve( AlEntitlementCollection.fromArray( [ "tmc" ] ) ) );
+    } );
+    afterEach( () => {
+        session.deactivateSession();
+        sinon.restore();
+    } );
+
+    it( "should deny or redirect unauthenticated users, unless authentication is optional", async () => {
+        expect( await new AlSessionGuard( {}, { session } ).check() ).to.deep.equal( { result: "deny", reason: "unauthenticated" } );
+        expect( await new AlSessionGuard( {}, { session, redirects: { unauthenticated: "/login" } } ).check() )
+            .to.deep.equal( { result: "redirect", reason: "unauthenticated", url: "/login" } );
+        expect( await new AlSessionGuard( { authenticated: false }, { session } ).check() ).to.deep.equal( { result: "allow" } );
+        expect( ( await new AlSessionGuard( { authenticated: false, entitlements: "tmc" }, { session } ).check() ).result ).to.equal( "deny" );
+    } );
+
+    it( "should wait for resolution before checking entitlements", async () => {
+        session.setAuthentication( exampleSession );
+        expect( await new AlSessionGuard( { entitlements: "tmc" }, { session } ).check() ).to.deep.equal( { result: "allow" } );
+        expect( await new AlSessionGuard( { entitlements: "tmc&cloud_defender" }, { session } ).check() ).to.deep.equal( { result: "deny", reason: "entitlements" } );
+    } );
+
+    it( "should check the account type, location and internal user requirements", async () => {
+        await session.setAuthentication( exampleSession );
+        expect( ( await new AlSessionGuard( { account: "primary" }, { session } ).check() ).result ).to.equal( "allow" );
+        expect( await new AlSessionGuard( { account: "managed" }, { session } ).check() ).to.deep.equal( { result: "deny", reason: "account" } );
+        expect( ( await new AlSessionGuard( { location: "insight-us-virginia" }, { session } ).check() ).result ).to.equal( "allow" );
+        expect( await new AlSessionGuard( { location: "insight-eu-ireland" }, { session } ).check() ).to.deep.equal( { result: "deny", reason: "location" } );
+        expect( await new AlSessionGuard( { internalUser: true }, { session } ).check() ).to.deep.equal( { result: "deny", reason: "internal_user" } );
+
+        await session.setActingAccount( exampleActing );
+        expect( ( await new AlSessionGuard( { account: "managed" }, { session } ).check() ).result ).to.equal( "allow" );
+    } );
+
+    it( "should refuse access as unresolved when resolution takes too long", async () => {
+        ( SubscriptionsClient.getEntitlements as sinon.SinonStub ).returns( new Promise( () => {} ) );
+        session.setAuthentication( exampleSession );
+        expect( await new AlSessionGuard( { entitlements: "tmc" }, { session, timeout: 0.01 } ).check() ).to.deep.equal( { result: "deny", reason: "unresolved" } );
+    } );
+
+    it( "should reject malformed entitlement expressions immediately", () => {
+        expect( () => new AlSessionGuard( { entitlements: "tmc&" }, { session } ) ).to.throw( AlSessionExpressionError );
+    } );
+} );
@@ -0,0 +1,111 @@
+import { AlSessionInstance, AlSessionIdleEvent, AlSessionExpiringEvent, AlSessionActivityEvent, AlSessionEndedEvent } from '../src/index';
+import { AlSessionIdleMonitor, AlDomActivitySource } from '../src/utilities';
+import { exampleSession } from './mocks/session-data.mocks';
+import { expect } from 'chai';
+import { describe, before } from 'mocha';
+import * as sinon from 'sinon';
+
+describe('AlSessionIdleMonitor', () => {
+    let session:AlSessionInstance;
+    let monitor:AlSessionIdleMonitor;
+    let activitySource;
+    let idleEvents:AlSessionIdleEvent[];
+    let expiringEvents:AlSessionExpiringEvent[];
+
+    beforeEach( async () => {
+        sinon.stub( console, 'warn' );
+        activitySource = {
+            onActivity: null,
+            start: ( onActivity ) => { activitySource.onActivity = onActivity; },
+            stop: () => { activitySource.onActivity = null; }
+        };
+        session = new AlSessionInstance();
+        session.setOptions( { resolveAccountMetadata: false } );
+        await session.setAuthentication( exampleSession );
+        monitor = new AlSessionIdleMonitor( session, { idleTimeout: 600, warningThreshold: 60, activitySource } );
+        idleEvents = [];
+        expiringEvents = [];
+        session.notifyStream.attach( AlSessionIdleEvent, ( event:AlSessionIdleEvent ) => { idleEvents.push( event ); } );
+        session.notifyStream.attach( AlSessionExpiringEvent, ( event:AlSessionExpiringEvent ) => { expiringEvents.push( event ); } );
+    } );
+
+    afterEach( () => {
+        monitor.stop();
+        session.deactivateSession();
+        sinon.restore();
+    } );
+
+    describe( ".start() and .stop()", () => {
+        it( "should attach to and detach from the activity source", () => {
+            monitor.start();
+            expect( monitor.isRunning() ).to.equal( true );
+            expect( activitySource.onActivity ).to.be.a( 'function' );
+            monitor.stop();
+            expect( monitor.isRunning() ).to.equal( false );
+            expect( activitySource.onActivity ).to.equal( null );
+        } );
+    } );
+
+    describe( ".evaluate()", () => {
+        it( "should do nothing while the user is active", () => {
+            monitor.evaluate();
+            expect( idleEvents.length ).to.equal( 0 );
+            expect( expiringEvents.length ).to.equal( 0 );
+        } );
+
+        it( "should emit a single idle event and expiring events once thresholds are crossed", () => {
+            monitor.lastActivity = Date.now() - ( 570 * 1000 );
+            monitor.evaluate();
+            monitor.evaluate();
+            expect( idleEvents.length ).to.equal( 1 );
+            expect( idleEvents[0].idleSeconds ).to.be.at.least( 570 );
+            expect( expiringEvents.length ).to.equal( 2 );
+            expect( expiringEvents[0].reason ).to.equal( "idle" );
+            expect( expiringEvents[0].secondsRemaining ).to.be.at.most( 30 );
+        } );
+
+        it( "should end the session once the idle timeout is reached", () => {
+            let ended:AlSessionEndedEvent = null;
+            session.notifyStream.attach( AlSessionEndedEvent, ( event:AlSessionEndedEvent ) => { ended = event; } );
+            monitor.lastActivity = Date.now() - ( 601 * 1000 );
+            monitor.evaluate();
+            expect( session.isActive() ).to.equal( false );
+            expect( ended.reason ).to.equal( "idle" );
+        } );
+
+        it( "should reset when activity is recorded", () => {
+            monitor.start();
+            monitor.lastActivity = Date.now() - ( 570 * 1000 );
+            activitySource.onActivity();
+            monitor.evaluate();
+            expect( idleEvents.length ).to.equal( 0 );
+            expect( expiringEvents.length ).to.equal( 0 );
+        } );
+
+        it( "should announce local activity at most once per interval, and never announce activity observed elsewhere", () => {
+            let announced:AlSessionActivityEvent[] = [];
+            session.notifyStream.attach( AlSessionActivityEvent, ( event:AlSessionActivityEvent ) => { announced.push( event ); } );
+            monitor.start();
+            activitySource.onActivity();
+            monitor.recordActivity( Date.now() + 60000, false );
+            expect( monitor.lastActivity ).to.be.above( Date.now() );
+            monitor.recordActivity( Date.now() - 60000, false );
+            expect( monitor.lastActivity ).to.be.above( Date.now() );
+            expect( announced.length ).to.equal( 1 );
+        } );
+    } );
+} );
+
+describe('AlDomActivitySource', () => {
+    it( "should report DOM input events as activity", () => {
+        let target = document.createElement( "div" );
+        let source = new AlDomActivitySource( target );
+        let count = 0;
+        source.start( () => count++ );
+        target.dispatchEvent( new Event( "mousedown" ) );
+        target.dispatchEvent( new Event( "keydown" ) );
+        source.stop();
+        target.dispatchEvent( new Event( "keydown" ) );
+        expect( count ).to.equal( 2 );
+    } );
+} );
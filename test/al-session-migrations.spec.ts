@@ -0,0 +1,77 @@
+import { AlSessionInstance } from '../src/index';
+import { AlSessionMigrations, AlMemorySessionStorage } from '../src/utilities';
+import { persistedV1Session, persistedV1SessionWithActing, persistedV2Session } from './mocks/persisted-session.mocks';
+import { expect } from 'chai';
+import { describe, before } from 'mocha';
+import * as sinon from 'sinon';
+
+describe('AlSessionMigrations', () => {
+
+    describe( ".getVersion()", () => {
+        it( "should recognize each historical shape", () => {
+            expect( AlSessionMigrations.getVersion( persistedV1Session ) ).to.equal( 1 );
+            expect( AlSessionMigrations.getVersion( persistedV1SessionWithActing ) ).to.equal( 1 );
+            expect( AlSessionMigrations.getVersion( persistedV2Session ) ).to.equal( 2 );
+        } );
+        it( "should return null for unrecognizable data", () => {
+            expect( AlSessionMigrations.getVersion( null ) ).to.equal( null );
+            expect( AlSessionMigrations.getVersion( "session" ) ).to.equal( null );
+            expect( AlSessionMigrations.getVersion( { token: "abc" } ) ).to.equal( null );
+        } );
+    } );
+
+    describe( ".migrate()", () => {
+        it( "should upgrade version 1 sessions to the current envelope", () => {
+            let migrated = AlSessionMigrations.migrate( persistedV1Session );
+            expect( migrated.version ).to.equal( AlSessionMigrations.getCurrentVersion() );
+            expect( migrated.session ).to.deep.equal( persistedV1Session );
+
+            migrated = AlSessionMigrations.migrate( persistedV1SessionWithActing );
+            expect( migrated.session.acting ).to.deep.equal( persistedV1SessionWithActing.acting );
+            expect( migrated.session.boundLocationId ).to.equal( "insight-us-virginia" );
+        } );
+        it( "should pass current envelopes through unchanged", () => {
+            expect( AlSessionMigrations.migrate( persistedV2Session ) ).to.equal( persistedV2Session );
+        } );
+        it( "should throw for unrecognizable data or versions from the future", () => {
+            expect( () => AlSessionMigrations.migrate( { token: "abc" } ) ).to.throw();
+            expect( () => AlSessionMigrations.migrate( { version: 9999, session: {} } ) ).to.throw();
+        } );
+    } );
+
+    describe( ".register()", () => {
+        let originalMigrations;
+        beforeEach( () => {
+            originalMigrations = Object.assign( {}, AlSessionMigrations['migrations'] );
+        } );
+        afterEach( () => {
+            AlSessionMigrations['migrations'] = originalMigrations;
+        } );
+        it( "should chain migrations through every intermediate version", () => {
+            AlSessionMigrations.register( 2, ( envelope ) => ( { version: 3, session: Object.assign( {}, envelope.session, { boundLocationId: "defender-us-denver" } ) } ) );
+            expect( AlSessionMigrations.getCurrentVersion() ).to.equal( 3 );
+            let migrated = AlSessionMigrations.migrate( persistedV1Session );
+            expect( migrated.version ).to.equal( 3 );
+            expect( migrated.session.boundLocationId ).to.equal( "defender-us-denver" );
+        } );
+        it( "should reject migrations that produce the wrong version", () => {
+            AlSessionMigrations.register( 2, ( envelope ) => envelope );
+            expect( () => AlSessionMigrations.migrate( persistedV1Session ) ).to.throw();
+        } );
+    } );
+} );
+
+describe('AlSessionInstance rehydration of historical sessions', () => {
+    [ persistedV1Session, persistedV1SessionWithActing, persistedV2Session ].forEach( ( fixture, index ) => {
+        it( `should reinstate fixture #${index + 1} and rewrite it in the current format`, async () => {
+            let storage = new AlMemorySessionStorage();
+            storage.set( "session", fixture );
+            let session = new AlSessionInstance( null, { resolveAccountMetadata: false, storage } );
+            await session.resolved();
+            expect( session.isActive() ).to.equal( true );
+            expect( session.getToken() ).to.equal( fixture['authentication'] ? fixture['authentication'].token : fixture['session'].authentication.token );
+            expect( storage.get( "session" ).version ).to.equal( AlSessionMigrations.getCurrentVersion() );
+            session.deactivateSession();
+        } );
+    } );
+} );
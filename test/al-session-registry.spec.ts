@@ -0,0 +1,79 @@
+import { ALSession, AlSessionInstance, AlSessionRegistry, AlSessionRegistryInstance } from '../src/index';
+import { ALClient, AlApiClient } from '@al/client';
+import { exampleSession } from './mocks/session-data.mocks';
+import { expect } from 'chai';
+import { describe, before } from 'mocha';
+import * as sinon from 'sinon';
+
+describe('AlSessionRegistry', () => {
+    let registry:AlSessionRegistryInstance;
+
+    //  Issues a request through the client's real request pipeline, capturing it just before it would reach the network
+    const captureRequestHeaders = async ( client:AlApiClient ) => {
+        let captured:any = null;
+        const axiosInstance = client['getAxiosInstance']();
+        const adapter = axiosInstance.defaults.adapter;
+        axiosInstance.defaults.adapter = ( config:any ) => {
+            captured = config;
+            return Promise.resolve( { config, data: {}, status: 200, statusText: "OK", headers: {} } );
+        };
+        try {
+            await client.get( { url: 'https://api.cloudinsight.alertlogic.com/aims/v1/capture', disableCache: true } );
+        } finally {
+            axiosInstance.defaults.adapter = adapter;
+        }
+        return captured.headers;
+    };
+
+    beforeEach( () => {
+        registry = new AlSessionRegistryInstance();
+    } );
+    afterEach( () => {
+        registry.list().filter( name => name !== "default" ).forEach( name => registry.dispose( name ) );
+        sinon.restore();
+    } );
+
+    it( "should be available as a global", () => {
+        expect( AlSessionRegistry ).to.be.an.instanceOf( AlSessionRegistryInstance );
+    } );
+
+    it( "should create, look up, list and dispose named sessions", () => {
+        let session = registry.create( "delegated", { resolveAccountMetadata: false } );
+        expect( session ).to.be.an.instanceOf( AlSessionInstance );
+        expect( session ).to.not.equal( ALSession );
+        expect( registry.get( "delegated" ) ).to.equal( session );
+        expect( registry.get( "default" ) ).to.equal( ALSession );
+        expect( registry.get( "nonexistent" ) ).to.equal( null );
+        expect( registry.list() ).to.deep.equal( [ "default", "delegated" ] );
+        expect( session.getNamespace() ).to.equal( "al_session_delegated" );
+        expect( session.getClient() ).to.not.equal( ALClient );
+
+        expect( registry.dispose( "delegated" ) ).to.equal( true );
+        expect( registry.has( "delegated" ) ).to.equal( false );
+        expect( registry.dispose( "delegated" ) ).to.equal( false );
+    } );
+
+    it( "should reject duplicate or invalid names, and refuse to dispose the default session", () => {
+        registry.create( "delegated" );
+        expect( () => registry.create( "delegated" ) ).to.throw();
+        expect( () => registry.create( "default" ) ).to.throw();
+        expect( () => registry.create( "not a name!" ) ).to.throw();
+        expect( () => registry.dispose( "default" ) ).to.throw();
+    } );
+
+    it( "should scope authentication headers and the default account ID to each session's own client", async () => {
+        ALSession.deactivateSession();
+        let session = registry.create( "delegated", { resolveAccountMetadata: false } );
+        await session.setAuthentication( exampleSession );
+
+        expect( session.getClient().defaultAccountId ).to.equal( exampleSession.authentication.account.id );
+        expect( ALClient.defaultAccountId ).to.equal( null );
+
+        expect( ( await captureRequestHeaders( session.getClient() ) )['X-AIMS-Auth-Token'] ).to.equal( exampleSession.authentication.token );
+        expect( ( await captureRequestHeaders( ALClient ) ).hasOwnProperty( 'X-AIMS-Auth-Token' ) ).to.equal( false );
+
+        registry.dispose( "delegated" );
+        expect( session.isActive() ).to.equal( false );
+        expect( session.getClient().defaultAccountId ).to.equal( null );
+    } );
+} );
@@ -0,0 +1,83 @@
+import { AlSchemaValidator, AlSessionSchemas } from '../src/index';
+import { exampleSession, exampleActing } from './mocks/session-data.mocks';
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import * as sinon from 'sinon';
+
+describe('AlSchemaValidator', () => {
+    const clone = ( value:any ) => JSON.parse( JSON.stringify( value ) );
+
+    afterEach( () => {
+        sinon.restore();
+    } );
+
+    it( "should accept well-formed session descriptors, users and accounts", () => {
+        expect( AlSchemaValidator.check( exampleSession, AlSessionSchemas.sessionDescriptor ) ).to.deep.equal( [] );
+        expect( AlSchemaValidator.check( exampleSession.authentication.user, AlSessionSchemas.user ) ).to.deep.equal( [] );
+        expect( AlSchemaValidator.check( exampleActing, AlSessionSchemas.account ) ).to.deep.equal( [] );
+    } );
+
+    it( "should report every violation, at any depth, with its JSON path", () => {
+        const descriptor = clone( exampleSession );
+        delete descriptor.authentication.user.email;
+        descriptor.authentication.account.accessible_locations = [ "defender-us-denver", 42 ];
+        descriptor.authentication.account.created.at = "yesterday";
+        descriptor.acting = Object.assign( clone( exampleActing ), { name: null } );
+
+        const violations = AlSchemaValidator.check( descriptor, AlSessionSchemas.sessionDescriptor );
+        expect( violations.map( violation => [ violation.path, violation.critical ] ) ).to.deep.equal( [
+            [ "$.authentication.user.email", true ],
+            [ "$.authentication.account.accessible_locations[1]", true ],
+            [ "$.authentication.account.created.at", false ],
+            [ "$.acting.name", false ]
+        ] );
+        expect( violations[1].problem ).to.equal( "expected string, found number" );
+        expect( AlSchemaValidator.check( "garbage", AlSessionSchemas.sessionDescriptor ) ).to.deep.equal( [
+            { path: "$", problem: "expected object, found string", critical: true }
+        ] );
+    } );
+
+    it( "should quote property names that aren't identifiers", () => {
+        const violations = AlSchemaValidator.check( { "aims:own:*": 1 }, { type: "object", values: { type: "string" } } );
+        expect( violations[0].path ).to.equal( '$["aims:own:*"]' );
+    } );
+
+    it( "should apply its mode's strictness", () => {
+        const warnStub = sinon.stub( console, 'warn' );
+        const account = Object.assign( clone( exampleActing ), { active: "yes" } );
+        const broken = Object.assign( clone( exampleActing ), { id: 67711880 } );
+
+        expect( () => new AlSchemaValidator( "strict" ).validate( account, AlSessionSchemas.account, "an account" ) ).to.throw( /\$\.active expected boolean/ );
+        expect( new AlSchemaValidator( "lenient" ).validate( account, AlSessionSchemas.account, "an account" ).length ).to.equal( 1 );
+        expect( warnStub.callCount ).to.equal( 1 );
+        try {
+            new AlSchemaValidator( "lenient" ).validate( broken, AlSessionSchemas.account, "an account" );
+            expect.fail( "The account should have been rejected" );
+        } catch( e ) {
+            expect( e.errors.map( violation => violation.path ) ).to.deep.equal( [ "$.id" ] );
+        }
+        expect( new AlSchemaValidator( "warn" ).validate( broken, AlSessionSchemas.account, "an account" ).length ).to.equal( 1 );
+        expect( warnStub.callCount ).to.equal( 2 );
+    } );
+
+    it( "should tolerate the gaps in proposed session descriptors that are filled in from the token", () => {
+        const proposed = { authentication: { token: "BigFatFakeToken", token_expiration: null, user: null, account: null } };
+        expect( AlSchemaValidator.check( proposed, AlSessionSchemas.proposedSessionDescriptor ) ).to.deep.equal( [] );
+        expect( AlSchemaValidator.check( proposed, AlSessionSchemas.sessionDescriptor ).length ).to.equal( 3 );
+    } );
+
+    it( "should require only what the session needs of consolidated metadata", () => {
+        const metadata = {
+            actingAccount: exampleActing,
+            primaryEntitlements: [ { productId: "tmc", active: true } ],
+            effectiveEntitlements: []
+        };
+        expect( AlSchemaValidator.check( metadata, AlSessionSchemas.consolidatedMetadata ) ).to.deep.equal( [] );
+        const violations = AlSchemaValidator.check( Object.assign( {}, metadata, { effectiveEntitlements: [ {} ], permissions: { "aims:*": true } } ),
+                                                    AlSessionSchemas.consolidatedMetadata );
+        expect( violations.map( violation => [ violation.path, violation.critical ] ) ).to.deep.equal( [
+            [ "$.effectiveEntitlements[0].productId", true ],
+            [ '$.permissions["aims:*"]', false ]
+        ] );
+    } );
+});
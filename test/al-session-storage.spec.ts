@@ -0,0 +1,96 @@
+import { AlSessionInstance } from '../src/index';
+import { AlMemorySessionStorage, AlTabSessionStorage, AlFileSessionStorage } from '../src/utilities';
+import { exampleSession } from './mocks/session-data.mocks';
+import { expect } from 'chai';
+import { describe, before } from 'mocha';
+import * as sinon from 'sinon';
+
+describe('AlMemorySessionStorage', () => {
+    it( "should store, retrieve, delete and destroy values", () => {
+        let storage = new AlMemorySessionStorage();
+        let value = { some: "thing" };
+        storage.set( "a", value ).set( "b", 42 );
+        expect( storage.get( "a" ) ).to.deep.equal( value );
+        expect( storage.get( "a" ) ).to.not.equal( value );         //  stored by value, not by reference
+        storage.delete( "a" );
+        expect( storage.get( "a" ) ).to.equal( null );
+        expect( storage.get( "a", "default" ) ).to.equal( "default" );
+        storage.destroy();
+        expect( storage.get( "b" ) ).to.equal( null );
+    } );
+} );
+
+describe('AlTabSessionStorage', () => {
+    afterEach( () => {
+        window.sessionStorage.clear();
+    } );
+    it( "should namespace values in sessionStorage", () => {
+        let storage = new AlTabSessionStorage( "al_session_test" );
+        storage.set( "session", { token: "abc" } );
+        window.sessionStorage.setItem( "unrelated", "value" );
+        expect( window.sessionStorage.getItem( "al_session_test.session" ) ).to.equal( JSON.stringify( { token: "abc" } ) );
+        expect( storage.get( "session" ) ).to.deep.equal( { token: "abc" } );
+        storage.destroy();
+        expect( storage.get( "session" ) ).to.equal( null );
+        expect( window.sessionStorage.getItem( "unrelated" ) ).to.equal( "value" );
+    } );
+} );
+
+describe('AlFileSessionStorage', () => {
+    let files:{[path:string]:string};
+    let fakeFs = {
+        existsSync: ( path:string ) => files.hasOwnProperty( path ),
+        readFileSync: ( path:string, encoding:string ) => files[path],
+        writeFileSync: ( path:string, data:string ) => { files[path] = data; },
+        unlinkSync: ( path:string ) => { delete files[path]; }
+    };
+    beforeEach( () => {
+        files = {};
+    } );
+    it( "should persist values to a JSON file", () => {
+        let storage = new AlFileSessionStorage( "/tmp/session.json", fakeFs );
+        expect( storage.get( "session" ) ).to.equal( null );
+        storage.set( "session", { token: "abc" } );
+        expect( JSON.parse( files["/tmp/session.json"] ) ).to.deep.equal( { session: { token: "abc" } } );
+        expect( new AlFileSessionStorage( "/tmp/session.json", fakeFs ).get( "session" ) ).to.deep.equal( { token: "abc" } );
+        storage.destroy();
+        expect( files.hasOwnProperty( "/tmp/session.json" ) ).to.equal( false );
+    } );
+    it( "should tolerate malformed files", () => {
+        let warnStub = sinon.stub( console, 'warn' );
+        files["/tmp/session.json"] = "this is not json";
+        let storage = new AlFileSessionStorage( "/tmp/session.json", fakeFs );
+        expect( storage.get( "session", "default" ) ).to.equal( "default" );
+        expect( warnStub.callCount ).to.equal( 1 );
+        sinon.restore();
+    } );
+} );
+
+describe('AlSessionInstance with a storage option', () => {
+    it( "should persist to and rehydrate from the configured backend", async () => {
+        let storage = new AlMemorySessionStorage();
+        let session = new AlSessionInstance( null, { resolveAccountMetadata: false, storage } );
+        await session.setAuthentication( exampleSession );
+        expect( storage.get( "session" ).session.authentication.token ).to.equal( exampleSession.authentication.token );
+
+        let rehydrated = new AlSessionInstance( null, { resolveAccountMetadata: false, storage } );
+        await rehydrated.resolved();
+        expect( rehydrated.isActive() ).to.equal( true );
+
+        session.deactivateSession();
+        expect( storage.get( "session" ) ).to.equal( null );
+        rehydrated.deactivateSession();
+    } );
+
+    it( "should remove the session from the previous backend when the backend is replaced", async () => {
+        let previous = new AlMemorySessionStorage();
+        let replacement = new AlMemorySessionStorage();
+        let session = new AlSessionInstance( null, { resolveAccountMetadata: false, storage: previous } );
+        await session.setAuthentication( exampleSession );
+
+        session.setOptions( { storage: replacement } );
+        expect( previous.get( "session" ) ).to.equal( null );
+        expect( replacement.get( "session" ).session.authentication.token ).to.equal( exampleSession.authentication.token );
+        session.deactivateSession();
+    } );
+} );
@@ -0,0 +1,131 @@
+import { AlSessionInstance, AlSessionEndedEvent, AlActingAccountChangedEvent, AlSessionActivityEvent } from '../src/index';
+import { AlSessionSynchronizer } from '../src/utilities';
+import { exampleSession, exampleActing } from './mocks/session-data.mocks';
+import { expect } from 'chai';
+import { describe, before } from 'mocha';
+import * as sinon from 'sinon';
+
+describe('AlSessionSynchronizer', () => {
+    let session:AlSessionInstance;
+    let synchronizer:AlSessionSynchronizer;
+    let broadcastStub;
+
+    let remoteMessage = ( type:string, data:any = {} ) => {
+        return Object.assign( { type, origin: 'some-other-tab', channel: 'al_session_sync_test', timestamp: Date.now() }, data );
+    };
+
+    beforeEach( async () => {
+        session = new AlSessionInstance();
+        session.setOptions( { resolveAccountMetadata: false, synchronizeTabs: false } );
+        await session.setAuthentication( exampleSession );
+        synchronizer = new AlSessionSynchronizer( session, 'al_session_sync_test' );
+        broadcastStub = sinon.stub( synchronizer as any, 'broadcast' ).callThrough();
+        synchronizer.start();
+    } );
+
+    afterEach( () => {
+        synchronizer.stop();
+        session.deactivateSession();
+        sinon.restore();
+    } );
+
+    describe( "when local changes occur", () => {
+        it( "should broadcast acting account changes and session ends", async () => {
+            await session.setActingAccount( exampleActing );
+            session.deactivateSession();
+            let types = broadcastStub.args.map( args => args[0].type );
+            expect( types ).to.deep.equal( [ "acting.changed", "session.ended" ] );
+        } );
+
+        it( "should broadcast session starts without an acting account", async () => {
+            session.deactivateSession();
+            broadcastStub.resetHistory();
+            await session.setAuthentication( exampleSession );
+            const message = broadcastStub.args[0][0];
+            expect( message.type ).to.equal( "session.started" );
+            expect( message.session ).to.have.all.keys( "authentication" );
+            expect( message.session.authentication.token ).to.equal( exampleSession.authentication.token );
+            expect( message.session.authentication.account.id ).to.equal( exampleSession.authentication.account.id );
+        } );
+
+        it( "should not broadcast sessions that end for reasons other than a logout", () => {
+            session.deactivateSession( "idle" );
+            expect( broadcastStub.callCount ).to.equal( 0 );
+        } );
+
+        it( "should broadcast user activity", () => {
+            session.notifyStream.trigger( new AlSessionActivityEvent( 1234567890, session ) );
+            expect( broadcastStub.args[0][0] ).to.deep.equal( { type: "activity", timestamp: 1234567890 } );
+        } );
+
+        it( "should not broadcast once stopped", () => {
+            synchronizer.stop();
+            session.deactivateSession();
+            expect( broadcastStub.callCount ).to.equal( 0 );
+        } );
+    } );
+
+    describe( "without BroadcastChannel", () => {
+        it( "should never write credentials to localStorage", () => {
+            if ( synchronizer['broadcastChannel'] ) {
+                synchronizer['broadcastChannel'].close();
+                synchronizer['broadcastChannel'] = null;
+            }
+            let setItemStub = sinon.stub( Storage.prototype, 'setItem' );
+            synchronizer['broadcast']( { type: "session.started", session: session.getSession() } );
+            synchronizer['broadcast']( { type: "token.refreshed", token: "ANewToken", tokenExpiration: ( Date.now() / 1000 ) + 10000 } );
+            expect( setItemStub.callCount ).to.equal( 0 );
+            synchronizer['broadcast']( { type: "session.ended" } );
+            expect( setItemStub.callCount ).to.equal( 1 );
+            expect( setItemStub.args[0][1] ).not.to.contain( session.getToken() );
+        } );
+    } );
+
+    describe( ".receive()", () => {
+        it( "should end the local session and raise AlSessionEndedEvent", () => {
+            let ended = false;
+            session.notifyStream.attach( AlSessionEndedEvent, () => { ended = true; } );
+            synchronizer.receive( remoteMessage( "session.ended" ) );
+            expect( session.isActive() ).to.equal( false );
+            expect( ended ).to.equal( true );
+            expect( broadcastStub.returnValues.length ).to.equal( 1 );       //  invoked, but suppressed as an echo
+        } );
+
+        it( "should apply acting account changes and raise AlActingAccountChangedEvent", () => {
+            let changed:AlActingAccountChangedEvent = null;
+            session.notifyStream.attach( AlActingAccountChangedEvent, ( event:AlActingAccountChangedEvent ) => { changed = event; } );
+            synchronizer.receive( remoteMessage( "acting.changed", { account: exampleActing } ) );
+            expect( session.getActingAccountId() ).to.equal( exampleActing.id );
+            expect( changed.actingAccount.id ).to.equal( exampleActing.id );
+        } );
+
+        it( "should record activity in other tabs", () => {
+            let recordStub = sinon.stub( session, 'recordActivity' );
+            synchronizer.receive( remoteMessage( "activity", { timestamp: 1234567890 } ) );
+            expect( recordStub.calledOnceWith( 1234567890 ) ).to.equal( true );
+        } );
+
+        it( "should apply refreshed tokens", () => {
+            let expiration = ( Date.now() / 1000 ) + 10000;
+            synchronizer.receive( remoteMessage( "token.refreshed", { token: "ANewToken", tokenExpiration: expiration } ) );
+            expect( session.getToken() ).to.equal( "ANewToken" );
+            expect( session.getTokenExpiry() ).to.equal( expiration );
+        } );
+
+        it( "should ignore messages from this tab or other channels", () => {
+            synchronizer.receive( remoteMessage( "session.ended", { origin: AlSessionSynchronizer.tabId } ) );
+            synchronizer.receive( remoteMessage( "session.ended", { channel: "some_other_session" } ) );
+            expect( session.isActive() ).to.equal( true );
+        } );
+
+        it( "should only honor remote logouts while impersonating", () => {
+            session['identityStack'].push( JSON.parse( JSON.stringify( exampleSession ) ) );
+            synchronizer.receive( remoteMessage( "token.refreshed", { token: "ANewToken", tokenExpiration: ( Date.now() / 1000 ) + 10000 } ) );
+            synchronizer.receive( remoteMessage( "acting.changed", { account: exampleActing } ) );
+            expect( session.getToken() ).to.equal( exampleSession.authentication.token );
+            expect( session.getActingAccountId() ).to.equal( exampleSession.authentication.account.id );
+            synchronizer.receive( remoteMessage( "session.ended" ) );
+            expect( session.isActive() ).to.equal( false );
+        } );
+    } );
+} );
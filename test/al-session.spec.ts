@@ -1,8 +1,13 @@
-import { ALSession, AlSessionInstance } from '../src/index';
-import { AlCabinet } from '@al/common';
+import { ALSession, AlSessionInstance, AlSessionTokenRefreshedEvent, AlSessionTokenRefreshFailedEvent, AlImpersonationStartedEvent, AlImpersonationEndedEvent,
+         AlActingAccountChangedEvent, AlActingAccountResolvedEvent, AlActingAccountChangeCancelledEvent, AlActingAccountChangeCancelledError,
+         AlActingAccountChangeVetoedEvent, AlActingAccountChangeVetoedError, AlActingAccountResolutionFailedEvent, AlSessionExpressionError,
+         AlExperienceChangedEvent, AlExperienceSelectionError, AlMemorySessionStorage, AlConduitClient, AlDeveloperOverridesChangedEvent,
+         AlSessionRehydrationFailedEvent } from '../src/index';
+import { AlCabinet, AlLocatorService } from '@al/common';
 import { ALClient, AIMSSessionDescriptor, AIMSAccount, AlClientBeforeRequestEvent } from '@al/client';
 import { AIMSClient } from '@al/aims';
 import { SubscriptionsClient, AlEntitlementCollection } from '@al/subscriptions';
+import { AlSessionMigrations, AlDeveloperOverrideStore } from '../src/utilities';
 import { exampleSession, exampleActing } from './mocks/session-data.mocks';
 import { expect, assert } from 'chai';
 import { describe, before } from 'mocha';
@@ -59,10 +64,11 @@ describe('ALSession - AIMSAuthentication value persistance Test Suite:', () => {
 
   describe('After setting the authentication value of the session object', () => {
     it('should persist this to local storage"', () => {
-      let session = storage.get( "session" );
-      expect( session ).to.be.an( 'object' );
-      expect( session.authentication ).to.be.an( 'object' );
-      expect( session.authentication ).to.deep.equal( sessionDescriptor.authentication );
+      let persisted = storage.get( "session" );
+      expect( persisted ).to.be.an( 'object' );
+      expect( persisted.version ).to.equal( AlSessionMigrations.getCurrentVersion() );
+      expect( persisted.session.authentication ).to.be.an( 'object' );
+      expect( persisted.session.authentication ).to.deep.equal( sessionDescriptor.authentication );
     });
   });
   describe('On retrieving the session token value', () => {
@@ -143,8 +149,8 @@ describe('ALSession - Acting AIMSAccount value persistance Test Suite:', () => {
   } );
   describe('After setting the acting account value of the session object', () => {
     it('should persist this to local storage"', () => {
-      const auth = storage.get("session" );
-      expect(auth.acting).to.deep.equal(actingAccount);
+      const persisted = storage.get("session" );
+      expect(persisted.session.acting).to.deep.equal(actingAccount);
     });
   });
   describe('On retrieving the session acting account ID value', () => {
@@ -491,6 +497,18 @@ describe('AlSession', () => {
       } );
     } );
 
+    describe( ".evaluate()", () => {
+      it("should return false in an unauthenticated state, and evaluate against the resolved account otherwise", async () => {
+        expect( session.evaluate( "!tmc" ) ).to.equal( false );
+        entitlementsStub.returns( Promise.resolve( AlEntitlementCollection.fromArray( [ "tmc" ] ) ) );
+        session.setAuthentication( exampleSession );
+        await session.resolved();
+        expect( session.evaluate( "tmc&primary:tmc" ) ).to.equal( true );
+        expect( session.evaluate( "!tmc|cloud_defender" ) ).to.equal( false );
+        expect( () => session.evaluate( "tmc&" ) ).to.throw( AlSessionExpressionError );
+      } );
+    } );
+
     describe( ".getManagedAccounts()", () => {
       it("should return the list of accounts managed by the primary account after account resolution is finished", async () => {
         session.setAuthentication( exampleSession );
@@ -500,4 +518,1056 @@ describe('AlSession', () => {
     } );
 
   } );
+
+  describe( 'token refresh', () => {
+    let session:AlSessionInstance;
+    let refresher;
+
+    beforeEach( () => {
+      storage.destroy();
+      session = new AlSessionInstance();
+      refresher = { refresh: sinon.stub() };
+      session.setOptions( { resolveAccountMetadata: false, tokenRefresher: refresher } );
+      sinon.stub( console, 'warn' );
+    } );
+
+    afterEach( () => {
+      session.deactivateSession();
+      sinon.restore();
+    } );
+
+    it( "should schedule a refresh once the session is authenticated", async () => {
+      expect( session['refreshTimer'] ).to.equal( null );
+      await session.setAuthentication( exampleSession );
+      expect( session['refreshTimer'] ).to.not.equal( null );
+      session.deactivateSession();
+      expect( session['refreshTimer'] ).to.equal( null );
+    } );
+
+    it( "should apply the renewed token and emit an AlSessionTokenRefreshedEvent", async () => {
+      const tokenExpiration = ( Date.now() / 1000 ) + 7200;
+      let refreshedEvent:AlSessionTokenRefreshedEvent = null;
+      refresher.refresh.resolves( { token: 'AFreshToken', token_expiration: tokenExpiration } );
+      session.notifyStream.attach( AlSessionTokenRefreshedEvent, ( event:AlSessionTokenRefreshedEvent ) => {
+        refreshedEvent = event;
+      } );
+      await session.setAuthentication( exampleSession );
+
+      let result = await session.refreshToken();
+      expect( result ).to.equal( true );
+      expect( session.getToken() ).to.equal( 'AFreshToken' );
+      expect( session.getTokenExpiry() ).to.equal( tokenExpiration );
+      expect( refreshedEvent ).to.be.an( 'object' );
+      expect( refreshedEvent.token ).to.equal( 'AFreshToken' );
+    } );
+
+    it( "should keep the existing token and emit an AlSessionTokenRefreshFailedEvent on failure", async () => {
+      let failedEvent:AlSessionTokenRefreshFailedEvent = null;
+      refresher.refresh.rejects( new Error( "Nope" ) );
+      session.notifyStream.attach( AlSessionTokenRefreshFailedEvent, ( event:AlSessionTokenRefreshFailedEvent ) => {
+        failedEvent = event;
+      } );
+      await session.setAuthentication( exampleSession );
+
+      let result = await session.refreshToken();
+      expect( result ).to.equal( false );
+      expect( session.getToken() ).to.equal( exampleSession.authentication.token );
+      expect( failedEvent ).to.be.an( 'object' );
+      expect( failedEvent.error.message ).to.equal( "Nope" );
+      expect( session['refreshTimer'] ).to.not.equal( null );
+    } );
+  } );
+
+  describe( '.extendSession()', () => {
+    let session:AlSessionInstance;
+
+    beforeEach( () => {
+      storage.destroy();
+      session = new AlSessionInstance();
+      session.setOptions( { resolveAccountMetadata: false, idleMonitoring: { idleTimeout: 600, activitySource: { start: () => {}, stop: () => {} } } } );
+    } );
+
+    afterEach( () => {
+      session.deactivateSession();
+      sinon.restore();
+    } );
+
+    it( "should resolve false in an unauthenticated state", async () => {
+      expect( await session.extendSession() ).to.equal( false );
+    } );
+
+    it( "should reset the idle clock", async () => {
+      await session.setAuthentication( exampleSession );
+      expect( session['idleMonitor'].isRunning() ).to.equal( true );
+      session['idleMonitor'].lastActivity = Date.now() - 500000;
+      expect( await session.extendSession() ).to.equal( true );
+      expect( session['idleMonitor'].getIdleTime() ).to.be.below( 5 );
+      session.deactivateSession();
+      expect( session['idleMonitor'].isRunning() ).to.equal( false );
+    } );
+  } );
+
+  describe( 'impersonation', () => {
+    let session:AlSessionInstance;
+    let customerSession;
+
+    beforeEach( () => {
+      storage.destroy();
+      session = new AlSessionInstance( null, { resolveAccountMetadata: false } );
+      customerSession = JSON.parse( JSON.stringify( exampleSession ) );
+      customerSession.authentication.token = 'ACustomerToken';
+      customerSession.authentication.user.id = '2222000022220000';
+      customerSession.authentication.user.name = 'Customer User';
+      customerSession.authentication.account = {
+        id: '12345678',
+        name: "Customer Company",
+        active: true,
+        accessible_locations: [ "defender-uk-newport" ],
+        default_location: 'defender-uk-newport',
+        created: { at: 123456789, by: 'Customer' },
+        modified: { at: 123456790, by: 'Customer' }
+      };
+    } );
+
+    afterEach( () => {
+      session.deactivateSession();
+      sinon.restore();
+    } );
+
+    it( "should require an active session", async () => {
+      let rejected = false;
+      await session.impersonate( customerSession ).catch( () => { rejected = true; } );
+      expect( rejected ).to.equal( true );
+      expect( session.isImpersonating() ).to.equal( false );
+    } );
+
+    it( "should step into another identity and restore the original acting account and datacenter", async () => {
+      let started:AlImpersonationStartedEvent = null;
+      let ended:AlImpersonationEndedEvent = null;
+      session.notifyStream.attach( AlImpersonationStartedEvent, ( event:AlImpersonationStartedEvent ) => { started = event; } );
+      session.notifyStream.attach( AlImpersonationEndedEvent, ( event:AlImpersonationEndedEvent ) => { ended = event; } );
+      await session.setAuthentication( exampleSession, { actingAccount: exampleActing, locationId: "insight-us-virginia" } );
+
+      await session.impersonate( customerSession );
+      expect( session.isImpersonating() ).to.equal( true );
+      expect( session.getUserId() ).to.equal( '2222000022220000' );
+      expect( session.getToken() ).to.equal( 'ACustomerToken' );
+      expect( session.getActingAccountId() ).to.equal( '12345678' );
+      expect( session.getActiveDatacenter() ).to.equal( 'defender-uk-newport' );
+      expect( started.impersonatedUser.id ).to.equal( '2222000022220000' );
+      expect( started.originalUser.id ).to.equal( exampleSession.authentication.user.id );
+      expect( started.depth ).to.equal( 1 );
+
+      await session.restoreIdentity();
+      expect( session.isImpersonating() ).to.equal( false );
+      expect( session.getUserId() ).to.equal( exampleSession.authentication.user.id );
+      expect( session.getToken() ).to.equal( exampleSession.authentication.token );
+      expect( session.getActingAccountId() ).to.equal( exampleActing.id );
+      expect( session.getActiveDatacenter() ).to.equal( 'insight-us-virginia' );
+      expect( ended.impersonatedUser.id ).to.equal( '2222000022220000' );
+      expect( ended.restoredUser.id ).to.equal( exampleSession.authentication.user.id );
+      expect( ended.depth ).to.equal( 0 );
+    } );
+
+    it( "should accept an access token", async () => {
+      let tokenInfoStub = sinon.stub( AIMSClient, 'getTokenInfo' ).returns( Promise.resolve( customerSession.authentication ) );
+      await session.setAuthentication( exampleSession );
+      await session.impersonate( 'ACustomerToken' );
+      expect( tokenInfoStub.callCount ).to.equal( 1 );
+      expect( session.getUserId() ).to.equal( '2222000022220000' );
+    } );
+
+    it( "should reject restoreIdentity() when nothing is suspended, and forget suspended identities on logout", async () => {
+      await session.setAuthentication( exampleSession );
+      let rejected = false;
+      await session.restoreIdentity().catch( () => { rejected = true; } );
+      expect( rejected ).to.equal( true );
+
+      await session.impersonate( customerSession );
+      session.deactivateSession();
+      expect( session.isImpersonating() ).to.equal( false );
+    } );
+
+    it( "should keep the original identity persisted while impersonating", async () => {
+      await session.setAuthentication( exampleSession, { actingAccount: exampleActing } );
+      await session.impersonate( customerSession );
+      expect( session.getToken() ).to.equal( 'ACustomerToken' );
+
+      const reloaded = new AlSessionInstance( null, { resolveAccountMetadata: false } );
+      await reloaded.resolved();
+      expect( reloaded.isImpersonating() ).to.equal( false );
+      expect( reloaded.getUserId() ).to.equal( exampleSession.authentication.user.id );
+      expect( reloaded.getToken() ).to.equal( exampleSession.authentication.token );
+      expect( reloaded.getActingAccountId() ).to.equal( exampleActing.id );
+      reloaded.dispose( false );
+    } );
+  } );
+
+  describe( 'concurrent acting account changes', () => {
+    let session:AlSessionInstance;
+    let resolvers:{[accountId:string]:() => void};
+    let otherAccount = Object.assign( {}, exampleActing, { id: '99999999', name: "Some Other Company" } );
+    let accounts = { [exampleSession.authentication.account.id]: exampleSession.authentication.account, [exampleActing.id]: exampleActing, [otherAccount.id]: otherAccount };
+    let cancelled:AlActingAccountChangeCancelledEvent[];
+
+    beforeEach( async () => {
+      storage.destroy();
+      resolvers = {};
+      cancelled = [];
+      session = new AlSessionInstance();
+      sinon.stub( console, 'error' );
+      sinon.stub( SubscriptionsClient, 'getEntitlements' ).returns( Promise.resolve( new AlEntitlementCollection() ) );
+      sinon.stub( AIMSClient, 'getAccountDetails' ).callsFake( ( accountId:string ) => {
+        return new Promise( resolve => { resolvers[accountId] = () => resolve( accounts[accountId] ); } );
+      } );
+      let authenticated = session.setAuthentication( exampleSession );
+      resolvers[exampleSession.authentication.account.id]();
+      await authenticated;
+      session.notifyStream.attach( AlActingAccountChangeCancelledEvent, ( event:AlActingAccountChangeCancelledEvent ) => cancelled.push( event ) );
+    } );
+
+    afterEach( () => {
+      session.deactivateSession();
+      sinon.restore();
+    } );
+
+    it( "should discard superseded resolutions and reject their callers", async () => {
+      let resolvedAccounts:string[] = [];
+      session.notifyStream.attach( AlActingAccountResolvedEvent, ( event:AlActingAccountResolvedEvent ) => resolvedAccounts.push( event.actingAccount.id ) );
+
+      let first = session.setActingAccount( exampleActing );
+      let second = session.setActingAccount( otherAccount );
+      resolvers[otherAccount.id]();
+      let result = await second;
+      resolvers[exampleActing.id]();
+      let error;
+      await first.catch( e => error = e );
+
+      expect( result.actingAccount.id ).to.equal( otherAccount.id );
+      expect( error ).to.be.an.instanceOf( AlActingAccountChangeCancelledError );
+      expect( error.requestedAccountId ).to.equal( exampleActing.id );
+      expect( session.getActingAccountId() ).to.equal( otherAccount.id );
+      expect( session['resolvedAccount'].actingAccount.id ).to.equal( otherAccount.id );
+      expect( resolvedAccounts ).to.deep.equal( [ otherAccount.id ] );
+      expect( cancelled.map( event => event.requestedAccountId ) ).to.deep.equal( [ exampleActing.id ] );
+    } );
+
+    it( "should cancel a pending change when the session ends", async () => {
+      let pending = session.setActingAccount( exampleActing );
+      session.deactivateSession();
+      resolvers[exampleActing.id]();
+      let error;
+      await pending.catch( e => error = e );
+      expect( error ).to.be.an.instanceOf( AlActingAccountChangeCancelledError );
+      expect( cancelled.length ).to.equal( 1 );
+    } );
+  } );
+
+  describe( 'acting account change hooks', () => {
+    let session:AlSessionInstance;
+    let vetoed:AlActingAccountChangeVetoedEvent[];
+    let otherAccount = Object.assign( {}, exampleActing, { id: '99999999', name: "Some Other Company", default_location: 'insight-us-virginia' } );
+
+    beforeEach( async () => {
+      storage.destroy();
+      vetoed = [];
+      session = new AlSessionInstance( null, { resolveAccountMetadata: false } );
+      await session.setAuthentication( exampleSession, { actingAccount: exampleActing } );
+      session.notifyStream.attach( AlActingAccountChangeVetoedEvent, ( event:AlActingAccountChangeVetoedEvent ) => vetoed.push( event ) );
+    } );
+
+    afterEach( () => {
+      session.deactivateSession();
+    } );
+
+    it( "should leave the acting account, default account ID and datacenter untouched when a hook vetoes the change", async () => {
+      let hook = sinon.stub().resolves( false );
+      session.addActingAccountChangeHook( hook );
+      let datacenter = session.getActiveDatacenter();
+      let error;
+      await session.setActingAccount( otherAccount ).catch( e => error = e );
+
+      expect( hook.callCount ).to.equal( 1 );
+      expect( hook.args[0][0].from.id ).to.equal( exampleActing.id );
+      expect( hook.args[0][0].to.id ).to.equal( otherAccount.id );
+      expect( error ).to.be.an.instanceOf( AlActingAccountChangeVetoedError );
+      expect( session.getActingAccountId() ).to.equal( exampleActing.id );
+      expect( ALClient.defaultAccountId ).to.equal( exampleActing.id );
+      expect( session.getActiveDatacenter() ).to.equal( datacenter );
+      expect( vetoed.length ).to.equal( 1 );
+      expect( vetoed[0].requestedAccount.id ).to.equal( otherAccount.id );
+    } );
+
+    it( "should report a thrown error's message as the reason for the veto", async () => {
+      session.addActingAccountChangeHook( () => { throw new Error( "You have unsaved changes" ); } );
+      await session.setActingAccount( otherAccount ).catch( () => {} );
+      expect( vetoed[0].reason ).to.equal( "You have unsaved changes" );
+    } );
+
+    it( "should wait for deferring hooks, and stop consulting removed hooks", async () => {
+      let release:( allow:boolean ) => void;
+      let hook = () => new Promise<boolean>( resolve => { release = resolve; } );
+      session.addActingAccountChangeHook( hook );
+      let pending = session.setActingAccount( otherAccount );
+      await Promise.resolve();
+      expect( session.getActingAccountId() ).to.equal( exampleActing.id );
+      release( true );
+      await pending;
+      expect( session.getActingAccountId() ).to.equal( otherAccount.id );
+
+      session.removeActingAccountChangeHook( hook );
+      await session.setActingAccount( exampleActing );
+      expect( session.getActingAccountId() ).to.equal( exampleActing.id );
+      expect( vetoed.length ).to.equal( 0 );
+    } );
+  } );
+
+  describe( 'acting account resolution failures', () => {
+    let session:AlSessionInstance;
+    let accountDetailsStub, entitlementsStub;
+    let failures:AlActingAccountResolutionFailedEvent[];
+    let otherAccount = Object.assign( {}, exampleActing, { id: '99999999', name: "Some Other Company" } );
+
+    beforeEach( () => {
+      storage.destroy();
+      failures = [];
+      session = new AlSessionInstance( null, { resolutionRetryPolicy: { attempts: 2, delay: 0 } } );
+      session.notifyStream.attach( AlActingAccountResolutionFailedEvent, ( event:AlActingAccountResolutionFailedEvent ) => failures.push( event ) );
+      sinon.stub( console, 'error' );
+      sinon.stub( console, 'warn' );
+      accountDetailsStub = sinon.stub( AIMSClient, 'getAccountDetails' ).callsFake( ( accountId:string ) => {
+        return Promise.resolve( accountId === otherAccount.id ? otherAccount : exampleSession.authentication.account );
+      } );
+      entitlementsStub = sinon.stub( SubscriptionsClient, 'getEntitlements' ).returns( Promise.resolve( new AlEntitlementCollection() ) );
+    } );
+
+    afterEach( () => {
+      session.deactivateSession();
+      sinon.restore();
+    } );
+
+    it( "should retry failed requests", async () => {
+      accountDetailsStub.onFirstCall().returns( Promise.reject( new Error( "Service unavailable" ) ) );
+      let result = await session.setAuthentication( exampleSession );
+      expect( accountDetailsStub.callCount ).to.equal( 2 );
+      expect( result.error ).to.equal( null );
+      expect( failures.length ).to.equal( 0 );
+    } );
+
+    it( "should retry the account details of an acting account given by ID", async () => {
+      await session.setAuthentication( exampleSession );
+      let failed = false;
+      accountDetailsStub.callsFake( ( accountId:string ) => {
+        if ( ! failed ) {
+          failed = true;
+          return Promise.reject( new Error( "Service unavailable" ) );
+        }
+        return Promise.resolve( otherAccount );
+      } );
+      let result = await session.setActingAccount( otherAccount.id );
+      expect( failed ).to.equal( true );
+      expect( session.getActingAccountId() ).to.equal( otherAccount.id );
+      expect( result.error ).to.equal( null );
+      expect( failures.length ).to.equal( 0 );
+    } );
+
+    it( "should keep retrying a shared request for a later change that joined it", async () => {
+      await session.setAuthentication( exampleSession );
+      let release:() => void;
+      const gate = new Promise<void>( resolve => release = resolve );
+      let failed = false;
+      entitlementsStub.callsFake( async ( accountId:string ) => {
+        if ( accountId === otherAccount.id && ! failed ) {
+          failed = true;
+          await gate;
+          throw { status: 503, message: "Service Unavailable" };
+        }
+        return new AlEntitlementCollection();
+      } );
+      const first = session.setActingAccount( otherAccount ).catch( e => e );
+      await new Promise( resolve => setTimeout( resolve, 0 ) );
+      const second = session.setActingAccount( otherAccount );
+      release();
+      const result = await second;
+      expect( await first ).to.be.instanceOf( AlActingAccountChangeCancelledError );
+      expect( result.error ).to.equal( null );
+      expect( failures.length ).to.equal( 0 );
+      expect( entitlementsStub.getCalls().filter( call => call.args[0] === otherAccount.id ).length ).to.equal( 2 );
+    } );
+
+    it( "should not retry client errors", async () => {
+      accountDetailsStub.returns( Promise.reject( { status: 403, message: "Forbidden" } ) );
+      await session.setAuthentication( exampleSession );
+      expect( accountDetailsStub.callCount ).to.equal( 1 );
+    } );
+
+    it( "should degrade to empty entitlements and release resolved() by default", async () => {
+      entitlementsStub.returns( Promise.reject( new Error( "Service unavailable" ) ) );
+      let result = await session.setAuthentication( exampleSession );
+      await session.resolved();
+      expect( session.isActive() ).to.equal( true );
+      expect( result.error.message ).to.equal( "Service unavailable" );
+      expect( session.getResolutionError() ).to.equal( result.error );
+      expect( session.getEffectiveEntitlementsSync().getActiveEntitlementKeys() ).to.deep.equal( [] );
+      expect( failures.length ).to.equal( 1 );
+      expect( failures[0].outcome ).to.equal( "degrade" );
+    } );
+
+    it( "should roll back to the previous acting account if so configured", async () => {
+      session.setOptions( { resolutionFailureMode: "rollback" } );
+      await session.setAuthentication( exampleSession );
+      entitlementsStub.returns( Promise.reject( new Error( "Service unavailable" ) ) );
+      let resolvedAccounts:string[] = [];
+      session.notifyStream.attach( AlActingAccountResolvedEvent, ( event:AlActingAccountResolvedEvent ) => resolvedAccounts.push( event.actingAccount.id ) );
+      let error;
+      await session.setActingAccount( otherAccount ).catch( e => error = e );
+      await session.resolved();
+      expect( resolvedAccounts ).to.deep.equal( [ exampleSession.authentication.account.id ] );
+      expect( error.message ).to.equal( "Service unavailable" );
+      expect( session.getActingAccountId() ).to.equal( exampleSession.authentication.account.id );
+      expect( ALClient.defaultAccountId ).to.equal( exampleSession.authentication.account.id );
+      expect( session.getResolutionError() ).to.equal( null );
+      expect( failures[0].outcome ).to.equal( "rollback" );
+      expect( failures[0].requestedAccount.id ).to.equal( otherAccount.id );
+    } );
+  } );
+
+  describe( '.resolvedWithin()', () => {
+    let session:AlSessionInstance;
+
+    beforeEach( () => {
+      storage.destroy();
+      session = new AlSessionInstance();
+      sinon.stub( AIMSClient, 'getAccountDetails' ).returns( new Promise( () => {} ) );
+      sinon.stub( SubscriptionsClient, 'getEntitlements' ).returns( Promise.resolve( new AlEntitlementCollection() ) );
+    } );
+
+    afterEach( () => {
+      session.deactivateSession();
+      sinon.restore();
+    } );
+
+    it( "should settle as unauthenticated when there is no session", async () => {
+      expect( ( await session.resolvedWithin() ).status ).to.equal( "unauthenticated" );
+    } );
+
+    it( "should settle as resolved once metadata has been resolved", async () => {
+      session.setOptions( { resolveAccountMetadata: false } );
+      await session.setAuthentication( exampleSession );
+      let result = await session.resolvedWithin( { timeout: 5 } );
+      expect( result.status ).to.equal( "resolved" );
+      if ( result.status === "resolved" ) {
+        expect( result.resolved.actingAccount.id ).to.equal( exampleSession.authentication.account.id );
+      }
+    } );
+
+    it( "should settle as timed out", async () => {
+      session.setAuthentication( exampleSession );
+      expect( ( await session.resolvedWithin( { timeout: 0.01 } ) ).status ).to.equal( "timeout" );
+    } );
+
+    it( "should settle as unauthenticated as soon as the session ends", async () => {
+      session.setAuthentication( exampleSession );
+      let pending = session.resolvedWithin();
+      session.deactivateSession();
+      expect( ( await pending ).status ).to.equal( "unauthenticated" );
+    } );
+
+    it( "should settle as aborted when its signal is aborted", async () => {
+      session.setAuthentication( exampleSession );
+      let controller = new AbortController();
+      let pending = session.resolvedWithin( { signal: controller.signal } );
+      controller.abort();
+      expect( ( await pending ).status ).to.equal( "aborted" );
+    } );
+
+    it( "should wait for a persisted session to be reinstated", async () => {
+      session.setOptions( { resolveAccountMetadata: false } );
+      await session.setAuthentication( exampleSession );
+      const rehydrated = new AlSessionInstance( null, { resolveAccountMetadata: false } );
+      const result = await rehydrated.resolvedWithin( { timeout: 5 } );
+      expect( result.status ).to.equal( "resolved" );
+      expect( rehydrated.getUserId() ).to.equal( exampleSession.authentication.user.id );
+      rehydrated.deactivateSession();
+    } );
+
+    it( "should provide bounded variants of the entitlement and managed account getters", async () => {
+      expect( await session.getEffectiveEntitlementsWithin() ).to.deep.equal( { status: "unauthenticated" } );
+      expect( ( await session.getManagedAccountsWithin() ).status ).to.equal( "unauthenticated" );
+
+      sinon.stub( AIMSClient, 'getManagedAccounts' ).returns( Promise.resolve( [ exampleActing ] ) );
+      session.setOptions( { resolveAccountMetadata: false } );
+      await session.setAuthentication( exampleSession );
+      const entitlements = await session.getPrimaryEntitlementsWithin( { timeout: 5 } );
+      expect( entitlements.status ).to.equal( "resolved" );
+      expect( entitlements.value ).to.equal( session.getPrimaryEntitlementsSync() );
+      expect( ( await session.getManagedAccountsWithin( { timeout: 5 } ) ).value.map( account => account.id ) ).to.deep.equal( [ exampleActing.id ] );
+    } );
+  } );
+
+  describe( 'experience selection', () => {
+    let session:AlSessionInstance;
+    let preferences:AlMemorySessionStorage;
+    let metadata:any;
+
+    beforeEach( () => {
+      storage.destroy();
+      preferences = new AlMemorySessionStorage();
+      session = new AlSessionInstance( null, { useConsolidatedResolver: true, experiencePreferencesStorage: preferences } );
+      metadata = {
+        actingAccount: exampleSession.authentication.account,
+        primaryEntitlements: [],
+        effectiveEntitlements: [],
+        experiences: { navigation: { available: [ "legacy", "beta" ], selected: "legacy" } }
+      };
+      sinon.stub( ALClient, 'get' ).callsFake( () => Promise.resolve( JSON.parse( JSON.stringify( metadata ) ) ) );
+    } );
+
+    afterEach( () => {
+      session.deactivateSession();
+      sinon.restore();
+    } );
+
+    it( "should validate, apply and announce a selection", async () => {
+      await session.setAuthentication( exampleSession );
+      let events:AlExperienceChangedEvent[] = [];
+      session.notifyStream.attach( AlExperienceChangedEvent, ( event:AlExperienceChangedEvent ) => events.push( event ) );
+
+      expect( () => session.selectExperience( "navigation", "bogus" ) ).to.throw( AlExperienceSelectionError );
+      expect( () => session.selectExperience( "nonexistent", "beta" ) ).to.throw( AlExperienceSelectionError );
+      expect( session.getSelectedExperience( "navigation" ) ).to.equal( "legacy" );
+
+      session.selectExperience( "navigation", "beta" );
+      expect( session.getSelectedExperience( "navigation" ) ).to.equal( "beta" );
+      expect( session.evaluate( "experience:navigation=beta" ) ).to.equal( true );
+      expect( events.length ).to.equal( 1 );
+      expect( events[0].path ).to.equal( "navigation" );
+      expect( events[0].selected ).to.equal( "beta" );
+      expect( events[0].previous ).to.equal( "legacy" );
+    } );
+
+    it( "should remember selections per user and account", async () => {
+      await session.setAuthentication( exampleSession );
+      session.selectExperience( "navigation", "beta" );
+      session.deactivateSession();
+
+      await session.setAuthentication( exampleSession );
+      expect( session.getSelectedExperience( "navigation" ) ).to.equal( "beta" );
+
+      metadata.actingAccount = exampleActing;
+      await session.setActingAccount( exampleActing );
+      expect( session.getSelectedExperience( "navigation" ) ).to.equal( "legacy" );
+    } );
+
+    it( "should apply and save selections stored via conduit", async () => {
+      const conduit = new AlConduitClient();
+      sinon.stub( conduit, 'getGlobalSetting' ).returns( Promise.resolve( { navigation: "beta" } ) );
+      const saveStub = sinon.stub( conduit, 'setGlobalSetting' ).returns( Promise.resolve( {} ) );
+      session.setOptions( { experiencePreferencesConduit: conduit } );
+      let events:AlExperienceChangedEvent[] = [];
+      session.notifyStream.attach( AlExperienceChangedEvent, ( event:AlExperienceChangedEvent ) => events.push( event ) );
+
+      await session.setAuthentication( exampleSession );
+      await new Promise( resolve => setTimeout( resolve, 0 ) );
+      expect( session.getSelectedExperience( "navigation" ) ).to.equal( "beta" );
+      expect( events.length ).to.equal( 1 );
+
+      session.selectExperience( "navigation", "legacy" );
+      expect( saveStub.callCount ).to.equal( 1 );
+      expect( saveStub.args[0][1] ).to.deep.equal( { navigation: "legacy" } );
+    } );
+  } );
+
+  describe( 'developer overrides', () => {
+    let session:AlSessionInstance;
+
+    beforeEach( () => {
+      storage.destroy();
+      session = new AlSessionInstance( null, { developerOverridesStorage: new AlMemorySessionStorage() } );
+      sinon.stub( AIMSClient, 'getAccountDetails' ).returns( Promise.resolve( exampleSession.authentication.account ) );
+      sinon.stub( SubscriptionsClient, 'getEntitlements' ).returns( Promise.resolve( AlEntitlementCollection.fromArray( [ "lm_essentials" ] ) ) );
+    } );
+
+    afterEach( () => {
+      session.deactivateSession();
+      sinon.restore();
+    } );
+
+    it( "should apply overrides to the entitlement getters and the resolved event", async () => {
+      session.setDeveloperOverrides( { grantEntitlements: [ "tmc" ], revokeEntitlements: [ "lm_essentials" ] } );
+      let resolved:AlActingAccountResolvedEvent[] = [];
+      session.notifyStream.attach( AlActingAccountResolvedEvent, ( event:AlActingAccountResolvedEvent ) => resolved.push( event ) );
+      await session.setAuthentication( exampleSession );
+
+      expect( resolved.length ).to.equal( 1 );
+      expect( resolved[0].overridden ).to.equal( true );
+      expect( resolved[0].entitlements.evaluateExpression( "tmc&!lm_essentials" ) ).to.equal( true );
+      expect( session.getEffectiveEntitlementsSync().evaluateExpression( "tmc&!lm_essentials" ) ).to.equal( true );
+      expect( session.getPrimaryEntitlementsSync().evaluateExpression( "tmc&!lm_essentials" ) ).to.equal( true );
+    } );
+
+    it( "should announce changes and reapply the resolution without resolving the account again", async () => {
+      await session.setAuthentication( exampleSession );
+      let changes:AlDeveloperOverridesChangedEvent[] = [];
+      let resolved:AlActingAccountResolvedEvent[] = [];
+      session.notifyStream.attach( AlDeveloperOverridesChangedEvent, ( event:AlDeveloperOverridesChangedEvent ) => changes.push( event ) );
+      session.notifyStream.attach( AlActingAccountResolvedEvent, ( event:AlActingAccountResolvedEvent ) => resolved.push( event ) );
+      const requests = ( SubscriptionsClient.getEntitlements as sinon.SinonStub ).callCount;
+
+      session.setDeveloperOverrides( { grantEntitlements: [ "tmc" ], experiences: { navigation: "beta" } } );
+      expect( changes.length ).to.equal( 1 );
+      expect( changes[0].active ).to.equal( true );
+      expect( resolved.length ).to.equal( 1 );
+      expect( session.evaluate( "tmc&lm_essentials&experience:navigation=beta" ) ).to.equal( true );
+
+      session.setDeveloperOverrides( null );
+      expect( changes[1].active ).to.equal( false );
+      expect( resolved[1].overridden ).to.equal( false );
+      expect( session.evaluate( "tmc|experience:navigation" ) ).to.equal( false );
+      expect( ( SubscriptionsClient.getEntitlements as sinon.SinonStub ).callCount ).to.equal( requests );
+    } );
+
+    it( "should announce overrides that are already in effect at startup", async () => {
+      const overridesStorage = new AlMemorySessionStorage();
+      new AlDeveloperOverrideStore( overridesStorage ).set( { grantEntitlements: [ "tmc" ] } );
+      const restarted = new AlSessionInstance( null, { developerOverridesStorage: overridesStorage } );
+      let changes:AlDeveloperOverridesChangedEvent[] = [];
+      restarted.notifyStream.attach( AlDeveloperOverridesChangedEvent, ( event:AlDeveloperOverridesChangedEvent ) => changes.push( event ) );
+      await new Promise( resolve => setTimeout( resolve, 0 ) );
+      expect( changes.length ).to.equal( 1 );
+      expect( changes[0].active ).to.equal( true );
+      expect( changes[0].overrides.grantEntitlements ).to.deep.equal( [ "tmc" ] );
+    } );
+
+    it( "should only honor overrides from the URL in production if allowed to", () => {
+      const location = window.location.href;
+      sinon.stub( console, 'warn' );
+      sinon.stub( AlLocatorService, 'getCurrentEnvironment' ).returns( "production" );
+      window.history.replaceState( null, '', `${window.location.pathname}?al_overrides=${encodeURIComponent( "+tmc" )}` );
+      try {
+        expect( new AlSessionInstance( null, { developerOverridesStorage: new AlMemorySessionStorage() } ).getDeveloperOverrides() ).to.equal( null );
+        const allowed = new AlSessionInstance( null, { developerOverridesStorage: new AlMemorySessionStorage(), developerOverridesFromUrl: true } );
+        expect( allowed.getDeveloperOverrides().grantEntitlements ).to.deep.equal( [ "tmc" ] );
+      } finally {
+        window.history.replaceState( null, '', location );
+      }
+    } );
+  } );
+
+  describe( 'resolution diffs', () => {
+    let session:AlSessionInstance;
+
+    beforeEach( () => {
+      storage.destroy();
+      session = new AlSessionInstance();
+      sinon.stub( AIMSClient, 'getAccountDetails' ).callsFake( ( accountId:string ) => {
+        return Promise.resolve( accountId === exampleActing.id ? exampleActing : exampleSession.authentication.account );
+      } );
+      sinon.stub( SubscriptionsClient, 'getEntitlements' ).callsFake( ( accountId:string ) => {
+        return Promise.resolve( AlEntitlementCollection.fromArray( accountId === exampleActing.id ? [ "tmc", "cloud_defender" ] : [ "tmc" ] ) );
+      } );
+    } );
+
+    afterEach( () => {
+      session.deactivateSession();
+      sinon.restore();
+    } );
+
+    it( "should describe what changed relative to the previously resolved account", async () => {
+      await session.setAuthentication( exampleSession );
+      expect( session['resolvedAccount'].diff.entitlementsGained ).to.deep.equal( [ "tmc" ] );
+
+      const resolved = await session.setActingAccount( exampleActing );
+      expect( resolved.diff.previousAccount.id ).to.equal( exampleSession.authentication.account.id );
+      expect( resolved.diff.accountChanged ).to.equal( true );
+      expect( resolved.diff.entitlementsGained ).to.deep.equal( [ "cloud_defender" ] );
+      expect( resolved.diff.entitlementsLost ).to.deep.equal( [] );
+      expect( resolved.diff.primaryEntitlementsGained ).to.deep.equal( [] );
+      expect( resolved.diff.datacenterChanged ).to.equal( false );
+    } );
+
+    it( "should describe the resolutions around a degraded one relative to the last successful resolution", async () => {
+      session.setOptions( { resolutionRetryPolicy: { attempts: 1, delay: 0 } } );
+      await session.setAuthentication( exampleSession );
+      ( SubscriptionsClient.getEntitlements as sinon.SinonStub ).callsFake( ( accountId:string ) => {
+        return accountId === exampleActing.id ? Promise.reject( new Error( "Service unavailable" ) ) : Promise.resolve( AlEntitlementCollection.fromArray( [ "tmc" ] ) );
+      } );
+
+      const degraded = await session.setActingAccount( exampleActing );
+      expect( degraded.error.message ).to.equal( "Service unavailable" );
+      expect( degraded.diff.previousAccount.id ).to.equal( exampleSession.authentication.account.id );
+      expect( degraded.diff.entitlementsLost ).to.deep.equal( [ "tmc" ] );
+
+      const recovered = await session.setActingAccount( exampleSession.authentication.account );
+      expect( recovered.diff.previousAccount.id ).to.equal( exampleSession.authentication.account.id );
+      expect( recovered.diff.accountChanged ).to.equal( false );
+      expect( recovered.diff.entitlementsGained ).to.deep.equal( [] );
+      expect( recovered.diff.entitlementsLost ).to.deep.equal( [] );
+    } );
+  } );
+
+  describe( 'permissions', () => {
+    let session:AlSessionInstance;
+    let rolesStub, permissionsStub;
+
+    beforeEach( () => {
+      storage.destroy();
+      session = new AlSessionInstance( null, { resolvePermissions: true } );
+      sinon.stub( AIMSClient, 'getAccountDetails' ).returns( Promise.resolve( exampleSession.authentication.account ) );
+      sinon.stub( SubscriptionsClient, 'getEntitlements' ).returns( Promise.resolve( new AlEntitlementCollection() ) );
+      rolesStub = sinon.stub( AIMSClient, 'getAssignedRoles' ).returns( Promise.resolve( [ { id: "role", name: "Power User", permissions: { "*:own:*:*": "allowed" } } ] ) );
+      permissionsStub = sinon.stub( AIMSClient, 'getUserPermissions' ).returns( Promise.resolve( { permissions: { "*:own:*:*": "allowed", "aims:own:grant:*": "denied" } } ) );
+    } );
+
+    afterEach( () => {
+      session.deactivateSession();
+      sinon.restore();
+    } );
+
+    it( "should resolve the user's roles and permissions for the acting account", async () => {
+      expect( session.hasPermission( "aims:own:get:users" ) ).to.equal( false );
+      await session.setAuthentication( exampleSession );
+      const resolved = session['resolvedAccount'] as AlActingAccountResolvedEvent;
+      expect( rolesStub.args[0] ).to.deep.equal( [ exampleSession.authentication.account.id, exampleSession.authentication.user.id ] );
+      expect( permissionsStub.args[0] ).to.deep.equal( [ exampleSession.authentication.account.id, exampleSession.authentication.user.id ] );
+      expect( resolved.roles.length ).to.equal( 1 );
+      expect( session.hasPermission( "aims:own:get:users" ) ).to.equal( true );
+      expect( session.hasPermission( "aims:own:grant:roles" ) ).to.equal( false );
+    } );
+
+    it( "should derive permissions from roles, rather than failing resolution, when they can't be retrieved", async () => {
+      sinon.stub( console, 'warn' );
+      permissionsStub.returns( Promise.reject( { status: 403, message: "Forbidden" } ) );
+      await session.setAuthentication( exampleSession );
+      const resolved = session['resolvedAccount'] as AlActingAccountResolvedEvent;
+      expect( resolved.error ).to.equal( null );
+      expect( session.hasPermission( "aims:own:get:users" ) ).to.equal( true );
+      expect( session.hasPermission( "aims:own:grant:roles" ) ).to.equal( true );
+
+      rolesStub.returns( Promise.reject( { status: 404, message: "Not Found" } ) );
+      await session.setActingAccount( exampleActing );
+      expect( ( session['resolvedAccount'] as AlActingAccountResolvedEvent ).error ).to.equal( null );
+      expect( session.hasPermission( "aims:own:get:users" ) ).to.equal( false );
+    } );
+
+    it( "should not retrieve permissions unless asked to", async () => {
+      session.setOptions( { resolvePermissions: false } );
+      await session.setAuthentication( exampleSession );
+      expect( rolesStub.callCount ).to.equal( 0 );
+      expect( session.hasPermission( "aims:own:get:users" ) ).to.equal( false );
+    } );
+  } );
+
+  describe( 'consolidated resolution', () => {
+    let session:AlSessionInstance;
+    let managedAccountsStub;
+
+    beforeEach( () => {
+      storage.destroy();
+      session = new AlSessionInstance( null, { useConsolidatedResolver: true } );
+      managedAccountsStub = sinon.stub( AIMSClient, 'getManagedAccounts' ).returns( Promise.resolve( [] ) );
+      sinon.stub( ALClient, 'get' ).returns( Promise.resolve( {
+        user: Object.assign( {}, exampleSession.authentication.user, { name: "Renamed User" } ),
+        primaryAccount: Object.assign( {}, exampleSession.authentication.account, { name: "Renamed Company" } ),
+        actingAccount: exampleSession.authentication.account,
+        managedAccounts: [ exampleActing ],
+        primaryEntitlements: [],
+        effectiveEntitlements: [],
+        experiences: {},
+        endpointsData: { aims: "api.cloudinsight.alertlogic.com", search: "https://api.global-services.us-west-2.global.alertlogic.com" }
+      } ) );
+    } );
+
+    afterEach( () => {
+      session.deactivateSession();
+      sinon.restore();
+    } );
+
+    it( "should prime endpoints, managed accounts, the user and the primary account from a single request", async () => {
+      await session.setAuthentication( exampleSession );
+
+      const axiosInstance = ALClient['getAxiosInstance']();
+      const adapter = axiosInstance.defaults.adapter;
+      const adapterStub = sinon.stub().returns( Promise.reject( new Error( "The endpoints service should not be consulted" ) ) );
+      axiosInstance.defaults.adapter = adapterStub;
+      try {
+        expect( await ALClient.getServiceEndpoints( exampleSession.authentication.account.id, [ "aims", "search" ] ) ).to.include( {
+          aims: "https://api.cloudinsight.alertlogic.com",
+          search: "https://api.global-services.us-west-2.global.alertlogic.com"
+        } );
+      } finally {
+        axiosInstance.defaults.adapter = adapter;
+      }
+      expect( adapterStub.callCount ).to.equal( 0 );
+      expect( ( await session.getManagedAccounts() ).map( account => account.id ) ).to.deep.equal( [ exampleActing.id ] );
+      expect( managedAccountsStub.callCount ).to.equal( 0 );
+      expect( session.getUserName() ).to.equal( "Renamed User" );
+      expect( session.getPrimaryAccount().name ).to.equal( "Renamed Company" );
+    } );
+
+    it( "should prime the session from prefetched metadata when switching to a prefetched account", async () => {
+      await session.setAuthentication( exampleSession );
+      const managedAccount = Object.assign( {}, exampleActing, { id: '12345678', name: "Managed Company" } );
+      ( ALClient.get as sinon.SinonStub ).returns( Promise.resolve( {
+        user: Object.assign( {}, exampleSession.authentication.user, { name: "Prefetched User" } ),
+        actingAccount: exampleActing,
+        managedAccounts: [ managedAccount ],
+        primaryEntitlements: [],
+        effectiveEntitlements: [],
+        experiences: {}
+      } ) );
+      expect( await session.prefetchAccount( exampleActing.id ) ).to.equal( true );
+      expect( session.getUserName() ).to.equal( "Renamed User" );
+
+      await session.setActingAccount( exampleActing.id );
+      expect( ( ALClient.get as sinon.SinonStub ).callCount ).to.equal( 2 );
+      expect( ( await session.getManagedAccounts() ).map( account => account.id ) ).to.deep.equal( [ managedAccount.id ] );
+      expect( managedAccountsStub.callCount ).to.equal( 0 );
+      expect( session.getUserName() ).to.equal( "Prefetched User" );
+    } );
+  } );
+
+  describe( 'resolution cache', () => {
+    let session:AlSessionInstance;
+    let accountDetailsStub, entitlementsStub;
+
+    beforeEach( () => {
+      storage.destroy();
+      session = new AlSessionInstance( null, { resolutionCacheTTL: 60 } );
+      accountDetailsStub = sinon.stub( AIMSClient, 'getAccountDetails' ).callsFake( ( accountId:string ) => {
+        return Promise.resolve( accountId === exampleActing.id ? exampleActing : exampleSession.authentication.account );
+      } );
+      entitlementsStub = sinon.stub( SubscriptionsClient, 'getEntitlements' ).callsFake( () => Promise.resolve( AlEntitlementCollection.fromArray( [ "tmc" ] ) ) );
+    } );
+
+    afterEach( () => {
+      session.deactivateSession();
+      sinon.restore();
+    } );
+
+    it( "should resolve from cache immediately and stay quiet if revalidation confirms the cached data", async () => {
+      await session.setAuthentication( exampleSession );
+      await session.setActingAccount( exampleActing );
+      let resolved:AlActingAccountResolvedEvent[] = [];
+      session.notifyStream.attach( AlActingAccountResolvedEvent, ( event:AlActingAccountResolvedEvent ) => resolved.push( event ) );
+      const requests = accountDetailsStub.callCount;
+
+      const result = await session.setActingAccount( exampleSession.authentication.account );
+      expect( result.cached ).to.equal( true );
+      expect( result.entitlements.evaluateExpression( "tmc" ) ).to.equal( true );
+      expect( resolved.length ).to.equal( 1 );
+
+      await new Promise( resolve => setTimeout( resolve, 10 ) );
+      expect( accountDetailsStub.callCount ).to.equal( requests + 1 );
+      expect( resolved.length ).to.equal( 1 );
+      expect( session.getEffectiveEntitlementsSync() ).to.equal( result.entitlements );
+    } );
+
+    it( "should emit a follow-up resolved event if the revalidated data differs", async () => {
+      await session.setAuthentication( exampleSession );
+      await session.setActingAccount( exampleActing );
+      entitlementsStub.callsFake( () => Promise.resolve( AlEntitlementCollection.fromArray( [ "tmc", "cloud_defender" ] ) ) );
+      let resolved:AlActingAccountResolvedEvent[] = [];
+      session.notifyStream.attach( AlActingAccountResolvedEvent, ( event:AlActingAccountResolvedEvent ) => resolved.push( event ) );
+
+      await session.setActingAccount( exampleSession.authentication.account );
+      await new Promise( resolve => setTimeout( resolve, 10 ) );
+      expect( resolved.length ).to.equal( 2 );
+      expect( resolved[0].cached ).to.equal( true );
+      expect( resolved[1].cached ).to.equal( false );
+      expect( resolved[1].diff.entitlementsGained ).to.deep.equal( [ "cloud_defender" ] );
+      expect( session.evaluate( "cloud_defender" ) ).to.equal( true );
+    } );
+
+    it( "should not announce a cancellation when revalidation is overtaken by another switch", async () => {
+      await session.setAuthentication( exampleSession );
+      await session.setActingAccount( exampleActing );
+      let release:() => void;
+      const gate = new Promise<void>( resolve => release = resolve );
+      accountDetailsStub.callsFake( async ( accountId:string ) => {
+        if ( accountId === exampleActing.id ) {
+          return exampleActing;
+        }
+        await gate;
+        return exampleSession.authentication.account;
+      } );
+      let cancelled:AlActingAccountChangeCancelledEvent[] = [];
+      session.notifyStream.attach( AlActingAccountChangeCancelledEvent, ( event:AlActingAccountChangeCancelledEvent ) => cancelled.push( event ) );
+
+      expect( ( await session.setActingAccount( exampleSession.authentication.account ) ).cached ).to.equal( true );
+      expect( ( await session.setActingAccount( exampleActing ) ).cached ).to.equal( true );
+      release();
+      await new Promise( resolve => setTimeout( resolve, 10 ) );
+      expect( cancelled.length ).to.equal( 0 );
+      expect( session.getActingAccountId() ).to.equal( exampleActing.id );
+    } );
+
+    it( "should not use cached resolutions once they expire or the session ends", async () => {
+      await session.setAuthentication( exampleSession );
+      await session.setActingAccount( exampleActing );
+      session.setOptions( { resolutionCacheTTL: 0 } );
+      expect( ( await session.setActingAccount( exampleSession.authentication.account ) ).cached ).to.equal( false );
+
+      session.setOptions( { resolutionCacheTTL: 60 } );
+      session.deactivateSession();
+      await session.setAuthentication( exampleSession );
+      expect( ( await session.setActingAccount( exampleActing ) ).cached ).to.equal( false );
+    } );
+  } );
+  describe( 'prefetching', () => {
+    let session:AlSessionInstance;
+    let accountDetailsStub, entitlementsStub;
+    const detailsRequests = ( accountId:string ) => accountDetailsStub.getCalls().filter( call => call.args[0] === accountId ).length;
+
+    beforeEach( () => {
+      storage.destroy();
+      session = new AlSessionInstance();
+      accountDetailsStub = sinon.stub( AIMSClient, 'getAccountDetails' ).callsFake( ( accountId:string ) => {
+        return Promise.resolve( accountId === exampleActing.id ? exampleActing : exampleSession.authentication.account );
+      } );
+      entitlementsStub = sinon.stub( SubscriptionsClient, 'getEntitlements' ).callsFake( () => Promise.resolve( AlEntitlementCollection.fromArray( [ "tmc" ] ) ) );
+    } );
+
+    afterEach( () => {
+      session.deactivateSession();
+      sinon.restore();
+    } );
+
+    it( "should warm an account without changing the acting account, so that switching to it needs no further requests", async () => {
+      await session.setAuthentication( exampleSession );
+      let changed = 0;
+      session.notifyStream.attach( AlActingAccountChangedEvent, () => changed++ );
+
+      expect( await session.prefetchAccount( exampleActing.id ) ).to.equal( true );
+      expect( session.getActingAccountId() ).to.equal( exampleSession.authentication.account.id );
+      expect( changed ).to.equal( 0 );
+
+      const details = accountDetailsStub.callCount;
+      const entitlements = entitlementsStub.callCount;
+      const result = await session.setActingAccount( exampleActing.id );
+      expect( result.actingAccount.id ).to.equal( exampleActing.id );
+      expect( result.entitlements.evaluateExpression( "tmc" ) ).to.equal( true );
+      expect( session.getActingAccountId() ).to.equal( exampleActing.id );
+      expect( accountDetailsStub.callCount ).to.equal( details );
+      expect( entitlementsStub.callCount ).to.equal( entitlements );
+    } );
+
+    it( "should share in-flight requests with an acting account change", async () => {
+      await session.setAuthentication( exampleSession );
+      let release:() => void;
+      const gate = new Promise<void>( resolve => release = resolve );
+      accountDetailsStub.callsFake( async ( accountId:string ) => {
+        await gate;
+        return accountId === exampleActing.id ? exampleActing : exampleSession.authentication.account;
+      } );
+
+      const prefetch = session.prefetchAccount( exampleActing.id );
+      const change = session.setActingAccount( exampleActing.id );
+      release();
+      const [ warmed, result ] = await Promise.all( [ prefetch, change ] );
+      expect( warmed ).to.equal( true );
+      expect( result.actingAccount.id ).to.equal( exampleActing.id );
+      expect( detailsRequests( exampleActing.id ) ).to.equal( 1 );
+      expect( entitlementsStub.getCalls().filter( call => call.args[0] === exampleActing.id ).length ).to.equal( 1 );
+    } );
+
+    it( "should not use prefetched resolutions once they expire or the session ends", async () => {
+      await session.setAuthentication( exampleSession );
+      await session.prefetchAccount( exampleActing.id );
+      session.setOptions( { prefetchTTL: 0 } );
+      await new Promise( resolve => setTimeout( resolve, 5 ) );
+      await session.setActingAccount( exampleActing.id );
+      expect( detailsRequests( exampleActing.id ) ).to.equal( 3 );
+
+      session.setOptions( { prefetchTTL: 60 } );
+      await session.setActingAccount( exampleSession.authentication.account );
+      await session.prefetchAccount( exampleActing.id );
+      session.deactivateSession();
+      await session.setAuthentication( exampleSession );
+      await session.setActingAccount( exampleActing.id );
+      expect( detailsRequests( exampleActing.id ) ).to.equal( 6 );
+    } );
+
+    it( "should prefetch recent acting accounts automatically when configured to", async () => {
+      session.setOptions( { prefetchRecentAccounts: 1 } );
+      await session.setAuthentication( exampleSession );
+      await session.setActingAccount( exampleActing );
+      const details = detailsRequests( exampleSession.authentication.account.id );
+
+      await session.setActingAccount( exampleSession.authentication.account );
+      await new Promise( resolve => setTimeout( resolve, 10 ) );
+      expect( detailsRequests( exampleActing.id ) ).to.equal( 2 );
+
+      await session.setActingAccount( exampleActing.id );
+      expect( detailsRequests( exampleActing.id ) ).to.equal( 2 );
+      expect( detailsRequests( exampleSession.authentication.account.id ) ).to.be.above( details );
+    } );
+  } );
+  describe( 'schema validation', () => {
+    const clone = ( value:any ) => JSON.parse( JSON.stringify( value ) );
+
+    beforeEach( () => {
+      storage.destroy();
+    } );
+
+    afterEach( () => {
+      sinon.restore();
+      storage.destroy();
+    } );
+
+    it( "should reject session descriptors according to the validation mode", async () => {
+      const descriptor = clone( exampleSession );
+      descriptor.authentication.user.created.at = "yesterday";
+      const warnStub = sinon.stub( console, 'warn' );
+      sinon.stub( console, 'error' );
+
+      const session = new AlSessionInstance( null, { resolveAccountMetadata: false, validationMode: "strict" } );
+      let rejection:any = null;
+      await session.setAuthentication( descriptor ).catch( e => rejection = e );
+      expect( rejection.errors.map( violation => violation.path ) ).to.deep.equal( [ "$.authentication.user.created.at" ] );
+      expect( session.isActive() ).to.equal( false );
+
+      session.setOptions( { validationMode: "lenient" } );
+      await session.setAuthentication( descriptor );
+      expect( session.isActive() ).to.equal( true );
+      expect( warnStub.callCount ).to.be.above( 0 );
+      session.deactivateSession();
+    } );
+
+    it( "should discard an invalid persisted session, reporting every violation", async () => {
+      const persisted = clone( exampleSession );
+      delete persisted.authentication.user.email;
+      persisted.authentication.account.accessible_locations = null;
+      storage.set( "session", persisted );
+      sinon.stub( console, 'warn' );
+
+      const session = new AlSessionInstance( null, { resolveAccountMetadata: false } );
+      const failure = await new Promise<AlSessionRehydrationFailedEvent>( resolve => {
+        session.notifyStream.attach( AlSessionRehydrationFailedEvent, resolve );
+      } );
+      expect( failure.reason ).to.equal( "invalid" );
+      expect( failure.error['errors'].map( violation => violation.path ) ).to.deep.equal( [
+        "$.authentication.user.email",
+        "$.authentication.account.accessible_locations"
+      ] );
+      expect( session.isActive() ).to.equal( false );
+      expect( storage.get( "session" ) ).to.equal( null );
+    } );
+
+    it( "should fall back to standard resolution if consolidated metadata is invalid", async () => {
+      const session = new AlSessionInstance( null, { useConsolidatedResolver: true } );
+      sinon.stub( console, 'warn' );
+      sinon.stub( ALClient, 'get' ).returns( Promise.resolve( {
+        actingAccount: exampleSession.authentication.account,
+        primaryEntitlements: []
+      } ) );
+      sinon.stub( AIMSClient, 'getAccountDetails' ).returns( Promise.resolve( exampleSession.authentication.account ) );
+      const entitlementsStub = sinon.stub( SubscriptionsClient, 'getEntitlements' ).returns( Promise.resolve( AlEntitlementCollection.fromArray( [ "tmc" ] ) ) );
+
+      const resolved = await session.setAuthentication( exampleSession );
+      expect( entitlementsStub.callCount ).to.equal( 1 );
+      expect( resolved.entitlements.evaluateExpression( "tmc" ) ).to.equal( true );
+      session.deactivateSession();
+    } );
+  } );
 } );
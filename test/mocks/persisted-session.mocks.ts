@@ -0,0 +1,27 @@
+import { exampleSession, exampleActing } from './session-data.mocks';
+
+/**
+ * Fixtures for each historical shape of the persisted session (see AlSessionMigrations for the version history).
+ */
+
+/* Version 1: a bare session descriptor, as persisted immediately after authentication */
+export const persistedV1Session = {
+  authentication: exampleSession.authentication
+};
+
+/* Version 1: a bare session descriptor after the acting account and datacenter have been set */
+export const persistedV1SessionWithActing = {
+  authentication: exampleSession.authentication,
+  acting: exampleActing,
+  boundLocationId: "insight-us-virginia"
+};
+
+/* Version 2: the versioned envelope */
+export const persistedV2Session = {
+  version: 2,
+  session: {
+    authentication: exampleSession.authentication,
+    acting: exampleActing,
+    boundLocationId: "insight-us-virginia"
+  }
+};